@@ -0,0 +1,157 @@
+/*-----------------------------------------------------------------------------
+| A stand-in live feed server which replays a file over a WebSocket.
+|
+| Usage: node scripts/feedserver.js <file> [--port 8765] [--interval 500]
+|                                   [--batch 100] [--key <column>]
+|
+| The file is either a newline delimited list of live feed messages, sent
+| one per interval, or a `{data, keys, types}` JSON document, sent as a
+| schema message followed by batches of rows. See `LiveFeed` for the
+| message protocol.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+
+
+/**
+ * The GUID of the WebSocket opening handshake.
+ */
+const handshakeGuid = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+
+/**
+ * Parse the command line arguments.
+ */
+function parseArgs(argv) {
+  let args = { file: null, port: 8765, interval: 500, batch: 100, key: undefined };
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i];
+    if (arg.startsWith('--')) {
+      let name = arg.slice(2);
+      let value = argv[++i];
+      args[name] = (name === 'key') ? value : Number(value);
+    } else {
+      args.file = arg;
+    }
+  }
+  if (!args.file) {
+    throw new Error('Usage: node scripts/feedserver.js <file> [--port 8765] [--interval 500] [--batch 100] [--key <column>]');
+  }
+  return args;
+}
+
+
+/**
+ * Read the messages to replay from a file.
+ */
+function readMessages(file, batch, key) {
+  let text = fs.readFileSync(file, 'utf8');
+
+  let document = null;
+  try {
+    document = JSON.parse(text);
+  } catch (err) {
+    // Not a single document, read one message per line below.
+  }
+
+  if (document === null || Array.isArray(document)) {
+    return text.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+  }
+
+  let messages = [{ type: 'schema', keys: document.keys, types: document.types, key: key }];
+  for (let i = 0; i < document.data.length; i += batch) {
+    messages.push({ type: 'rows', rows: document.data.slice(i, i + batch) });
+  }
+  return messages;
+}
+
+
+/**
+ * Encode a text message as an unmasked WebSocket frame.
+ */
+function encodeFrame(text) {
+  let payload = Buffer.from(text, 'utf8');
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeUInt32BE(Math.floor(payload.length / 0x100000000), 2);
+    header.writeUInt32BE(payload.length % 0x100000000, 6);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+
+/**
+ * Replay the messages to a connected socket, one per interval.
+ */
+function replay(socket, messages, interval) {
+  let index = 0;
+  let timer = setInterval(() => {
+    if (index >= messages.length) {
+      clearInterval(timer);
+      return;
+    }
+    socket.write(encodeFrame(JSON.stringify(messages[index++])));
+  }, interval);
+
+  let close = () => { clearInterval(timer); };
+  socket.on('close', close);
+  socket.on('error', close);
+
+  // End the connection when the client sends a close frame.
+  socket.on('data', data => {
+    if ((data[0] & 0x0f) === 0x8) {
+      socket.end();
+    }
+  });
+}
+
+
+function main() {
+  let args = parseArgs(process.argv.slice(2));
+  let messages = readMessages(args.file, args.batch, args.key);
+
+  let server = http.createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Expected a WebSocket connection');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    let key = req.headers['sec-websocket-key'];
+    if (!key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    let accept = crypto.createHash('sha1').update(key + handshakeGuid).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', ''
+    ].join('\r\n'));
+
+    console.log(`Replaying ${messages.length} messages to ${socket.remoteAddress}`);
+    replay(socket, messages, args.interval);
+  });
+
+  server.listen(args.port, () => {
+    console.log(`Live feed listening on ws://localhost:${args.port}`);
+  });
+}
+
+
+main();
@@ -0,0 +1,349 @@
+/*-----------------------------------------------------------------------------
+| A stand-in table server which answers the queries of a remote table data
+| model over a file.
+|
+| Usage: node scripts/tableserver.js <file> [--port 8766] [--bins 10]
+|                                    [--categories 30]
+|
+| The file is a `{data, keys, types}` JSON document. The histograms are
+| computed once at startup, and the rows are filtered and sorted in memory
+| for every query. See `RemoteTableDataModel` for the query protocol.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+const fs = require('fs');
+const http = require('http');
+
+
+/**
+ * Parse the command line arguments.
+ */
+function parseArgs(argv) {
+  let args = { file: null, port: 8766, bins: 10, categories: 30 };
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i];
+    if (arg.startsWith('--')) {
+      args[arg.slice(2)] = Number(argv[++i]);
+    } else {
+      args.file = arg;
+    }
+  }
+  if (!args.file) {
+    throw new Error('Usage: node scripts/tableserver.js <file> [--port 8766] [--bins 10] [--categories 30]');
+  }
+  return args;
+}
+
+
+function isMissing(value) {
+  return value === null || value === undefined || value === '';
+}
+
+
+function isNumeric(type) {
+  return type === 'integer' || type === 'float';
+}
+
+
+function isTemporal(type) {
+  return type === 'date' || type === 'datetime';
+}
+
+
+/**
+ * Convert a value to the number it is binned and sorted by.
+ */
+function toNumber(value, type) {
+  if (isTemporal(type)) {
+    return (typeof value === 'number') ? value : Date.parse(value);
+  }
+  return Number(value);
+}
+
+
+/**
+ * Format a bound of a numeric or temporal bin.
+ */
+function formatBound(value, type) {
+  if (type === 'date') {
+    return new Date(value).toISOString().slice(0, 10);
+  }
+  if (type === 'datetime') {
+    return new Date(value).toISOString().slice(0, 19).replace('T', ' ');
+  }
+  return String(Math.round(value * 1000) / 1000);
+}
+
+
+/**
+ * Bin a numeric or temporal column into equal width bins.
+ *
+ * Integer columns with few values get a bin per value.
+ */
+function rangeHistogram(values, type, binCount) {
+  let numbers = values.map(value => isMissing(value) ? null : toNumber(value, type));
+  let min = Infinity;
+  let max = -Infinity;
+  for (let number of numbers) {
+    if (number !== null) {
+      min = Math.min(min, number);
+      max = Math.max(max, number);
+    }
+  }
+  if (min > max) {
+    return { desc: 'No values', bins: [], index: numbers.map(() => -1) };
+  }
+
+  let bins = [];
+  let locate;
+  if (type === 'integer' && max - min < binCount) {
+    for (let value = min; value <= max; value++) {
+      bins.push({ label: String(value), count: 0, min: value, max: value });
+    }
+    locate = number => number - min;
+  } else {
+    let width = (max - min) / binCount || 1;
+    let count = (max === min) ? 1 : binCount;
+    for (let i = 0; i < count; i++) {
+      let lower = min + i * width;
+      let upper = (i === count - 1) ? max : min + (i + 1) * width;
+      bins.push({ label: `${formatBound(lower, type)} – ${formatBound(upper, type)}`, count: 0, min: lower, max: upper });
+    }
+    locate = number => Math.min(Math.floor((number - min) / width), count - 1);
+  }
+
+  let index = numbers.map(number => (number === null) ? -1 : locate(number));
+  return { desc: `${formatBound(min, type)} – ${formatBound(max, type)}`, min, max, bins, index };
+}
+
+
+/**
+ * Bin a categorical column by its most frequent values, with an Other bin
+ * for the rest.
+ */
+function categoryHistogram(values, maxCategories) {
+  let counts = new Map();
+  for (let value of values) {
+    if (!isMissing(value)) {
+      counts.set(String(value), (counts.get(String(value)) || 0) + 1);
+    }
+  }
+
+  let ranked = Array.from(counts.keys()).sort((a, b) => counts.get(b) - counts.get(a));
+  let top = ranked.slice(0, maxCategories);
+  let positions = new Map(top.map((value, i) => [value, i]));
+  let bins = top.map(value => ({ label: value, count: 0 }));
+
+  let other = ranked.length - top.length;
+  if (other > 0) {
+    bins.push({ label: `Other (${other} values)`, count: 0 });
+  }
+
+  let index = values.map(value => {
+    if (isMissing(value)) {
+      return -1;
+    }
+    let position = positions.get(String(value));
+    return (position === undefined) ? top.length : position;
+  });
+  return { desc: `${counts.size} values`, bins, index };
+}
+
+
+/**
+ * Compute the histogram of each column, and the bin of each value.
+ */
+function createHistograms(table, binCount, maxCategories) {
+  return table.keys.map((key, column) => {
+    let type = table.types[column];
+    let values = table.data.map(row => row[column]);
+    let histogram = (isNumeric(type) || isTemporal(type)) ?
+      rangeHistogram(values, type, binCount) : categoryHistogram(values, maxCategories);
+
+    histogram.nullCount = 0;
+    histogram.numbers = values.map(value => isMissing(value) ? null : toNumber(value, type));
+    for (let bin of histogram.index) {
+      if (bin < 0) {
+        histogram.nullCount++;
+      } else {
+        histogram.bins[bin].count++;
+      }
+    }
+    return histogram;
+  });
+}
+
+
+/**
+ * Test whether a row passes the filter of a column.
+ */
+function passes(filter, histogram, row) {
+  let bin = histogram.index[row];
+  if (filter.range) {
+    let number = histogram.numbers[row];
+    let [min, max] = filter.range;
+    if (number === null || number < min || number > max || (number === max && max < histogram.max)) {
+      return false;
+    }
+  }
+  if (filter.include !== null && filter.include.indexOf(bin) < 0) {
+    return false;
+  }
+  return filter.exclude.indexOf(bin) < 0;
+}
+
+
+/**
+ * Get the rows passing the filters.
+ */
+function filterRows(table, histograms, filters) {
+  let rows = [];
+  for (let row = 0; row < table.data.length; row++) {
+    if (filters.every(filter => passes(filter, histograms[filter.column], row))) {
+      rows.push(row);
+    }
+  }
+  return rows;
+}
+
+
+/**
+ * Count the filtered rows, and the rows of each bin under the filters of
+ * the other columns.
+ */
+function countRows(table, histograms, filters) {
+  let columns = histograms.map(histogram => ({ bins: histogram.bins.map(() => 0), nullCount: 0 }));
+  let rowCount = 0;
+
+  for (let row = 0; row < table.data.length; row++) {
+    let failing = filters.filter(filter => !passes(filter, histograms[filter.column], row));
+    if (failing.length === 0) {
+      rowCount++;
+    }
+    // A row failing a single filter still counts in the bins of that column.
+    if (failing.length > 1) {
+      continue;
+    }
+    histograms.forEach((histogram, column) => {
+      if (failing.length === 1 && failing[0].column !== column) {
+        return;
+      }
+      let bin = histogram.index[row];
+      if (bin < 0) {
+        columns[column].nullCount++;
+      } else {
+        columns[column].bins[bin]++;
+      }
+    });
+  }
+  return { rowCount, columns };
+}
+
+
+/**
+ * Sort rows by the sort keys, with the missing values last.
+ */
+function sortRows(table, histograms, rows, sort) {
+  let compare = (a, b, key) => {
+    let type = table.types[key.column];
+    let x = table.data[a][key.column];
+    let y = table.data[b][key.column];
+    if (isMissing(x) || isMissing(y)) {
+      return isMissing(x) ? (isMissing(y) ? 0 : 1) : -1;
+    }
+    let order = (key.order === 'desc') ? -1 : 1;
+    if (isNumeric(type) || isTemporal(type)) {
+      let numbers = histograms[key.column].numbers;
+      return order * (numbers[a] - numbers[b]);
+    }
+    return order * String(x).localeCompare(String(y));
+  };
+
+  return rows.sort((a, b) => {
+    for (let key of sort) {
+      let result = compare(a, b, key);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return a - b;
+  });
+}
+
+
+/**
+ * Answer a query of a remote table data model.
+ */
+function answer(table, histograms, query) {
+  switch (query.type) {
+  case 'schema':
+    return { keys: table.keys, types: table.types, rowCount: table.data.length };
+  case 'stats':
+    return {
+      columns: histograms.map(histogram => ({
+        desc: histogram.desc,
+        min: histogram.min,
+        max: histogram.max,
+        nullCount: histogram.nullCount,
+        bins: histogram.bins
+      }))
+    };
+  case 'counts':
+    return countRows(table, histograms, query.filters);
+  case 'rows':
+    let rows = filterRows(table, histograms, query.filters);
+    if (query.sort.length > 0) {
+      sortRows(table, histograms, rows, query.sort);
+    }
+    return { rows: rows.slice(query.offset, query.offset + query.limit).map(row => table.data[row]) };
+  default:
+    throw new Error(`Unknown query type "${query.type}"`);
+  }
+}
+
+
+function main() {
+  let args = parseArgs(process.argv.slice(2));
+  let table = JSON.parse(fs.readFileSync(args.file, 'utf8'));
+  let histograms = createHistograms(table, args.bins, args.categories);
+
+  let headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  };
+
+  let server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, headers);
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, headers);
+      res.end(JSON.stringify({ error: 'Expected a POST request' }));
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let result;
+      try {
+        result = answer(table, histograms, JSON.parse(body));
+      } catch (err) {
+        result = { error: err.message };
+      }
+      res.writeHead(200, headers);
+      res.end(JSON.stringify(result));
+    });
+  });
+
+  server.listen(args.port, () => {
+    console.log(`Serving ${table.data.length} rows of ${args.file} on http://localhost:${args.port}`);
+  });
+}
+
+
+main();
@@ -325,8 +325,40 @@ class HeaderRenderer extends TextRenderer {
       gc.drawImage(icon, iconX, iconY);
     }
 
+    // Draw the sort arrow and the rank of the sort key next to the icon.
+    let { sort, sortRank } = config.metadata;
+    if (sort === 'asc' || sort === 'desc') {
+      let arrowX = iconX + (icon ? icon.width + 4 : 0);
+      let arrowY = config.y + 2 + textHeight / 2;
+      let arrowWidth = 7;
+
+      gc.fillStyle = color;
+      gc.beginPath();
+      if (sort === 'asc') {
+        gc.moveTo(arrowX, arrowY + 2);
+        gc.lineTo(arrowX + arrowWidth, arrowY + 2);
+        gc.lineTo(arrowX + arrowWidth / 2, arrowY - 2);
+      } else {
+        gc.moveTo(arrowX, arrowY - 2);
+        gc.lineTo(arrowX + arrowWidth, arrowY - 2);
+        gc.lineTo(arrowX + arrowWidth / 2, arrowY + 2);
+      }
+      gc.closePath();
+      gc.fill();
+
+      let sortWidth = arrowWidth + 4;
+      if (sortRank > 0) {
+        gc.font = CellRenderer.resolveOption(this.font, config);
+        gc.textAlign = 'left';
+        gc.textBaseline = 'middle';
+        gc.fillText(String(sortRank), arrowX + arrowWidth + 2, arrowY);
+        sortWidth += gc.measureText(String(sortRank)).width + 2;
+      }
+      boxWidth -= (hAlign !== "center") ? sortWidth : 2 * sortWidth;
+    }
+
     // Format the cell value to text.
-    let { header, totalCount, nullBin, maxBinCount, hoveredBin, bins, isLinked, desc, extra} = config.value as ColumnStats;
+    let { header, totalCount, nullBin, maxBinCount, hoveredBin, brushedBins, bins, isLinked, isComputing, desc, extra} = config.value as ColumnStats;
     let text = header; //this.format({ value: header, ...config});
 
     // Bail if there is no text to draw.
@@ -365,6 +397,16 @@ class HeaderRenderer extends TextRenderer {
     // Draw the text for the cell.
     gc.fillText(text, textX, textY);
 
+    // Show the computing state until the column stats arrive.
+    if (isComputing) {
+      if (config.height > textHeight * 2 + 8) {
+        gc.font = CellRenderer.resolveOption(this.font, config);
+        gc.textAlign = 'center';
+        gc.fillText('Computing\u2026', config.x + config.width / 2, config.y + config.height - 2);
+      }
+      return;
+    }
+
     if (config.height > textHeight * 2 + 8) {
       // Need to elide for categories
       text = desc;
@@ -391,6 +433,8 @@ class HeaderRenderer extends TextRenderer {
 
 
     let barColor = '#a1bbff';
+    let includeColor = '#5b84f0';
+    let excludeColor = '#dcdcdc';
     gc.fillStyle = barColor;
 
     if (config.height > textHeight + 4) {
@@ -434,6 +478,9 @@ class HeaderRenderer extends TextRenderer {
         for (let i = 0; i < binCount; i++) {
           let bin = bins[i];
           let h = Math.ceil((bin.count * height) / maxBinCount);
+          // Mark the bins the column is filtered by.
+          gc.fillStyle = (bin.filter === 'include') ? includeColor :
+            (bin.filter === 'exclude') ? excludeColor : barColor;
           gc.fillRect(start, y - h, binWidth - 1, h);
           start += binWidth;
         }
@@ -448,7 +495,11 @@ class HeaderRenderer extends TextRenderer {
             start += binWidth;
           }
         }
-        if (hoveredBin != -1) {
+        if (brushedBins) {
+          let [first, last] = brushedBins;
+          gc.fillStyle = "rgba(0, 0, 0, .25)"
+          gc.fillRect(x + binWidth * first, y - height, binWidth * (last - first + 1) - 1, height);
+        } else if (hoveredBin != -1) {
           gc.fillStyle = "rgba(0, 0, 0, .25)"
           gc.fillRect(x + binWidth * hoveredBin, y - height, binWidth - 1, height);
         }
@@ -457,7 +508,18 @@ class HeaderRenderer extends TextRenderer {
 
   }
 
-  hitTestBin(x: number, y: number, width: number, height: number, value: object): number | 'null' {
+  /**
+   * Test whether a point of a header cell is on the column title.
+   *
+   * @param x - The x position of the point relative to the cell.
+   *
+   * @param y - The y position of the point relative to the cell.
+   *
+   * @param width - The width of the cell.
+   *
+   * @param height - The height of the cell.
+   */
+  hitTestTitle(x: number, y: number, width: number, height: number): boolean {
     let font = CellRenderer.resolveOption(this.headerFont,
       {x: 0, y: 0, width: width, height: height,
         region: 'column-header', row: 0, column: 0, metadata: {}, value: null});
@@ -465,8 +527,63 @@ class HeaderRenderer extends TextRenderer {
     let textHeight = TextRenderer.measureFontHeight(font);
     let textY = 2 + textHeight;
 
+    return y <= textY + 2;
+  }
+
+  /**
+   * Find the histogram bin under an x position of a header cell.
+   *
+   * @param x - The x position relative to the cell, which may lie outside
+   *   of the cell while dragging.
+   *
+   * @param width - The width of the cell.
+   *
+   * @param value - The column stats of the cell.
+   *
+   * @returns The index of the bin, clamped to the drawn bins, or `-1` if
+   *   the column has no bins.
+   */
+  binAtX(x: number, width: number, value: object): number {
     let { bins } = value as ColumnStats;
 
+    width = width - 4;
+
+    let maxBinW = 20;
+    let binCount = bins.length;
+
+    if (binCount === 0) {
+      return -1;
+    }
+
+    let binWidth = Math.max(this.minBinWidth, Math.floor(width / binCount));
+
+    binCount = Math.min(binCount, Math.floor(width / binWidth));
+
+    let start = 2;
+
+    if (binWidth > maxBinW) {
+      binWidth = maxBinW;
+      start += (width - binWidth * binCount) / 2;
+    }
+
+    let index = Math.floor((x - start) / binWidth);
+    return Math.max(0, Math.min(binCount - 1, index));
+  }
+
+  hitTestBin(x: number, y: number, width: number, height: number, value: object): number | 'null' {
+    let font = CellRenderer.resolveOption(this.headerFont,
+      {x: 0, y: 0, width: width, height: height,
+        region: 'column-header', row: 0, column: 0, metadata: {}, value: null});
+
+    let textHeight = TextRenderer.measureFontHeight(font);
+    let textY = 2 + textHeight;
+
+    let { bins, isComputing } = value as ColumnStats;
+
+    if (isComputing) {
+      return -1;
+    }
+
     if (y > textY + 2 && y < textY + 2 + 5) {
       return 'null';
     }
@@ -260,7 +260,7 @@ class AxisRenderer extends TextRenderer {
     let metadata = config.metadata;
 
     // Calculate nice ticks for this range
-    let ticks = Private.generateTicks(metadata.min, metadata.max, 2, this.strict);
+    let ticks = generateTicks(metadata.min, metadata.max, 2, this.strict);
     metadata.min = ticks[0];
     metadata.max = ticks[ticks.length - 1];
 
@@ -635,7 +635,7 @@ class BarRenderer extends CellRenderer {
     let metadata = config.metadata;
 
     // Calculate nice ticks for this range
-    let ticks = Private.generateTicks(metadata.min, metadata.max, 2);
+    let ticks = generateTicks(metadata.min, metadata.max, 2);
     metadata.min = ticks[0];
     metadata.max = ticks[ticks.length - 1];
 
@@ -858,11 +858,11 @@ class ScatterRenderer extends CellRenderer {
     let metadata = config.metadata;
 
     // Calculate nice ticks for this range
-    let xticks = Private.generateTicks(metadata.min[0], metadata.max[0], 2);
+    let xticks = generateTicks(metadata.min[0], metadata.max[0], 2);
     metadata.min[0] = xticks[0];
     metadata.max[0] = xticks[xticks.length - 1];
 
-    let yticks = Private.generateTicks(metadata.min[1], metadata.max[1], 2);
+    let yticks = generateTicks(metadata.min[1], metadata.max[1], 2);
     metadata.min[1] = yticks[0];
     metadata.max[1] = yticks[yticks.length - 1];
 
@@ -1100,11 +1100,11 @@ class LineRenderer extends CellRenderer {
     let metadata = config.metadata;
 
     // Calculate nice ticks for this range
-    let xticks = Private.generateTicks(metadata.min[0], metadata.max[0], 2, true);
+    let xticks = generateTicks(metadata.min[0], metadata.max[0], 2, true);
     metadata.min[0] = xticks[0];
     metadata.max[0] = xticks[xticks.length - 1];
 
-    let yticks = Private.generateTicks(metadata.min[1], metadata.max[1], 2);
+    let yticks = generateTicks(metadata.min[1], metadata.max[1], 2);
     metadata.min[1] = yticks[0];
     metadata.max[1] = yticks[yticks.length - 1];
 
@@ -1235,85 +1235,3 @@ namespace transformLinear {
     strict?: boolean;
   }
 }
-
-
-/**
- * The namespace for the module implementation details.
- */
-export
-namespace Private {
-
-  let bases = [1, 2, 5];
-
-  /**
-   * This eliminates floating point errors otherwise accumulated
-   * by repeatedly adding the computed interval.
-   */
-  function precision(interval: number){
-    var multiplier = Math.pow(10, Math.ceil(Math.log10(interval)) + 1);
-    return function (value: number){
-      return Math.round(value * multiplier) / multiplier;
-    };
-  }
-
-  /**
-   * Calculate a nice interval for the tick marks.
-   */
-  function getNiceInterval(min: number, max: number, n: number) {
-
-    var rawInterval = (max - min) / n;
-    var rawExponent = Math.log10(rawInterval);
-
-    // One of these two integer exponents, in conjunction with one of the bases,
-    // will yield the nicest interval.
-    var exponents = [Math.floor(rawExponent), Math.ceil(rawExponent)];
-
-    var nicestInterval = Infinity;
-
-    bases.forEach( (base) => {
-      exponents.forEach( (exponent) => {
-
-        // Try each combination of base and interval.
-        var currentInterval = base * Math.pow(10, exponent);
-
-        // Pick the combination that yields the nice interval that
-        // most closely matches the raw interval.
-        var currentDeviation = Math.abs(rawInterval - currentInterval);
-        var nicestDeviation  = Math.abs(rawInterval - nicestInterval);
-
-        if ( currentDeviation < nicestDeviation ){
-          nicestInterval = currentInterval;
-        }
-      });
-    });
-
-    return nicestInterval;
-  }
-
-  function getFirstTickValue(min: number, interval: number){
-    return Math.floor(min / interval) * interval;
-  }
-
-  export
-  function generateTicks(min: number, max: number, n: number, tight: boolean = true) {
-
-    let interval = getNiceInterval(min, max, n);
-    let value = getFirstTickValue(min, interval);
-
-    let ticks = [value];
-
-    while(value < max) {
-      value += interval;
-      ticks.push(value);
-    }
-
-    ticks = ticks.map(precision(interval));
-
-    if (tight) {
-      ticks[0] = min;
-      ticks[ticks.length - 1] = max;
-    }
-
-    return ticks;
-  }
-}
@@ -0,0 +1,267 @@
+import {
+  Message
+} from '@lumino/messaging';
+
+import {
+  Widget
+} from '@lumino/widgets';
+
+import {
+  DataGrid, DataModel
+} from '@lumino/datagrid';
+
+import {
+  TableDataModel
+} from './tabledatamodel';
+
+
+/**
+ * A widget choosing the columns shown by the grid of a table.
+ *
+ * #### Notes
+ * The columns are listed in view order, pinned columns first and hidden
+ * columns last, and can be searched by name. Each column can be shown or
+ * hidden, and pinned next to the row numbers. The shown columns are
+ * reordered by dragging their titles in the grid.
+ *
+ * The chooser also picks the key column identifying the rows in the row
+ * header.
+ */
+export
+class ColumnChooser extends Widget {
+  /**
+   * Construct a new column chooser.
+   *
+   * @param options - The options for initializing the column chooser.
+   */
+  constructor(options: ColumnChooser.IOptions) {
+    super();
+    this.addClass('p-ColumnChooser');
+    this._model = options.model;
+    this._grid = options.grid || null;
+
+    let key = document.createElement('select');
+    key.className = 'p-ColumnChooser-key';
+
+    let keyLabel = document.createElement('label');
+    keyLabel.append('Row header ', key);
+
+    let search = document.createElement('input');
+    search.type = 'search';
+    search.placeholder = 'Search columns\u2026';
+    search.className = 'p-ColumnChooser-search';
+
+    this._list = document.createElement('ul');
+    this._list.className = 'p-ColumnChooser-list';
+    this.node.append(keyLabel, search, this._list);
+
+    this._keySelect = key;
+    this._searchInput = search;
+    this._model.changed.connect(this._onModelChanged, this);
+  }
+
+  /**
+   * Dispose of the resources held by the column chooser.
+   */
+  dispose(): void {
+    this._model.changed.disconnect(this._onModelChanged, this);
+    super.dispose();
+  }
+
+  /**
+   * The table data model of the column chooser.
+   */
+  get model(): TableDataModel {
+    return this._model;
+  }
+
+  /**
+   * Handle the DOM events for the column chooser.
+   *
+   * @param event - The DOM event sent to the column chooser.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'click':
+      this._evtClick(event as MouseEvent);
+      break;
+    case 'change':
+      this._evtChange(event);
+      break;
+    case 'input':
+      this.update();
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this.node.addEventListener('click', this);
+    this.node.addEventListener('change', this);
+    this.node.addEventListener('input', this);
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    this.node.removeEventListener('change', this);
+    this.node.removeEventListener('input', this);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let names = this._model.columnNames;
+    let order = this._model.columnOrder;
+    let pinnedCount = this._model.pinnedCount;
+    let term = this._searchInput.value.trim().toLowerCase();
+
+    this._keySelect.textContent = '';
+    this._keySelect.appendChild(Private.createOption(-1, 'Row number'));
+    names.forEach((name, column) => {
+      this._keySelect.appendChild(Private.createOption(column, name));
+    });
+    this._keySelect.value = String(this._model.keyColumn);
+
+    let columns = order.slice();
+    names.forEach((name, column) => {
+      if (order.indexOf(column) < 0) {
+        columns.push(column);
+      }
+    });
+
+    this._list.textContent = '';
+    for (let column of columns) {
+      if (term !== '' && names[column].toLowerCase().indexOf(term) < 0) {
+        continue;
+      }
+      let index = order.indexOf(column);
+      this._list.appendChild(Private.createItem(column, names[column], index >= 0, index >= 0 && index < pinnedCount));
+    }
+  }
+
+  /**
+   * Handle the `'click'` event for the column chooser.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let button = (event.target as HTMLElement).closest('.p-ColumnChooser-pin') as HTMLElement | null;
+    if (button === null) {
+      return;
+    }
+
+    let column = Number(button.dataset.column);
+    let index = this._model.columnOrder.indexOf(column);
+    let pinned = index >= 0 && index < this._model.pinnedCount;
+    this._model.setColumnPinned(column, !pinned);
+
+    // Give a newly pinned column the width of the body columns.
+    if (!pinned && this._grid !== null) {
+      this._grid.resizeColumn('row-header', this._model.pinnedCount, this._grid.defaultSizes.columnWidth);
+    }
+  }
+
+  /**
+   * Handle the `'change'` event for the column chooser.
+   */
+  private _evtChange(event: Event): void {
+    if (event.target === this._keySelect) {
+      this._model.setKeyColumn(Number(this._keySelect.value));
+      return;
+    }
+    let input = event.target as HTMLInputElement;
+    if (input.classList.contains('p-ColumnChooser-visible')) {
+      this._model.setColumnVisible(Number(input.dataset.column), input.checked);
+    }
+  }
+
+  /**
+   * Handle a change of the table data model.
+   */
+  private _onModelChanged(sender: DataModel, args: DataModel.ChangedArgs): void {
+    // Only a reset changes the columns.
+    if (args.type === 'model-reset' && this.isAttached) {
+      this.update();
+    }
+  }
+
+  private _model: TableDataModel;
+  private _grid: DataGrid | null;
+  private _keySelect: HTMLSelectElement;
+  private _searchInput: HTMLInputElement;
+  private _list: HTMLUListElement;
+}
+
+
+/**
+ * The namespace for the `ColumnChooser` class statics.
+ */
+export
+namespace ColumnChooser {
+  /**
+   * An options object for initializing a column chooser.
+   */
+  export
+  interface IOptions {
+    /**
+     * The table data model whose columns are chosen.
+     */
+    model: TableDataModel;
+
+    /**
+     * The grid showing the model, whose pinned columns are resized to the
+     * width of the body columns.
+     */
+    grid?: DataGrid;
+  }
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * Create an option of the key column.
+   */
+  export
+  function createOption(column: number, label: string): HTMLOptionElement {
+    let option = document.createElement('option');
+    option.value = String(column);
+    option.textContent = label;
+    return option;
+  }
+
+  /**
+   * Create the list item of a column.
+   */
+  export
+  function createItem(column: number, name: string, visible: boolean, pinned: boolean): HTMLLIElement {
+    let checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.className = 'p-ColumnChooser-visible';
+    checkbox.checked = visible;
+    checkbox.dataset.column = String(column);
+
+    let label = document.createElement('label');
+    label.append(checkbox, name);
+
+    let pin = document.createElement('button');
+    pin.className = 'p-ColumnChooser-pin';
+    pin.textContent = pinned ? 'Unpin' : 'Pin';
+    pin.title = pinned ? 'Scroll the column with the table' : 'Keep the column next to the row numbers';
+    pin.dataset.column = String(column);
+
+    let item = document.createElement('li');
+    item.className = 'p-ColumnChooser-item';
+    item.classList.toggle('p-mod-hidden', !visible);
+    item.classList.toggle('p-mod-pinned', pinned);
+    item.append(label, pin);
+    return item;
+  }
+}
@@ -0,0 +1,257 @@
+import {
+  toTime
+} from './columnstats';
+
+import {
+  ColumnVector
+} from './columnstore';
+
+
+/**
+ * The summary statistics of the values of a column.
+ *
+ * #### Notes
+ * The moments, the quartiles and the zero count are only computed for
+ * numeric columns, the range and the quartiles of temporal columns are
+ * timestamps, and the text lengths are only computed for string columns.
+ * The statistics of the values are left out when all the values are
+ * missing.
+ */
+export
+interface ColumnProfile {
+  /**
+   * The number of profiled rows.
+   */
+  count: number;
+
+  /**
+   * The number of rows with a missing value.
+   */
+  missing: number;
+
+  /**
+   * The number of distinct values.
+   */
+  distinct: number;
+
+  /**
+   * The most frequent value, or `null` if all the values are missing.
+   *
+   * Ties go to the value appearing first.
+   */
+  mostFrequent: any;
+
+  /**
+   * The number of rows with the most frequent value.
+   */
+  mostFrequentCount: number;
+
+  /**
+   * The number of zero values of a numeric column.
+   */
+  zeros?: number;
+
+  /**
+   * The mean of a numeric column.
+   */
+  mean?: number;
+
+  /**
+   * The sample standard deviation of a numeric column, with at least two
+   * values.
+   */
+  std?: number;
+
+  /**
+   * The minimum of a numeric or temporal column.
+   */
+  min?: number;
+
+  /**
+   * The first quartile of a numeric or temporal column.
+   */
+  q1?: number;
+
+  /**
+   * The median of a numeric or temporal column.
+   */
+  median?: number;
+
+  /**
+   * The third quartile of a numeric or temporal column.
+   */
+  q3?: number;
+
+  /**
+   * The maximum of a numeric or temporal column.
+   */
+  max?: number;
+
+  /**
+   * The length of the shortest text of a string column.
+   */
+  minLength?: number;
+
+  /**
+   * The length of the longest text of a string column.
+   */
+  maxLength?: number;
+}
+
+
+/**
+ * The profiles of a column over all the rows and the filtered rows.
+ */
+export
+interface ColumnProfiles {
+  /**
+   * The profile of all the rows.
+   */
+  all: ColumnProfile;
+
+  /**
+   * The profile of the rows passing the filters and the search, or `null`
+   * if there is no filter.
+   */
+  filtered: ColumnProfile | null;
+}
+
+
+/**
+ * Compute the profile of a column.
+ *
+ * @param values - The values of the column.
+ *
+ * @param type - The column type.
+ *
+ * @param rows - The rows to profile, or `null` for all the rows.
+ *
+ * @param missing - The test of the text of a value counted as missing.
+ *   The default only counts `null` values as missing.
+ *
+ * @returns The summary statistics of the values of the rows.
+ */
+export
+function computeProfile(values: ColumnVector, type: string, rows: Array<number> | null, missing?: (text: string) => boolean): ColumnProfile {
+  let count = (rows === null) ? values.length : rows.length;
+  let isNumeric = type === 'integer' || type === 'float';
+  let isTemporal = type === 'date' || type === 'datetime';
+
+  let missingCount = 0;
+  let frequencies = new Map<any, Private.IFrequency>();
+  let numbers: Array<number> = [];
+  let minLength = Infinity;
+  let maxLength = -Infinity;
+
+  for (let i = 0; i < count; i++) {
+    let value = values.get((rows === null) ? i : rows[i]);
+    if (value === null || value === undefined || (missing !== undefined && missing(String(value)))) {
+      missingCount++;
+      continue;
+    }
+
+    let key = (value instanceof Date) ? value.getTime() : value;
+    let frequency = frequencies.get(key);
+    if (frequency === undefined) {
+      frequencies.set(key, { value, count: 1 });
+    } else {
+      frequency.count++;
+    }
+
+    if (isNumeric) {
+      numbers.push(value);
+    } else if (isTemporal) {
+      numbers.push(toTime(value));
+    } else if (type === 'string') {
+      let length = String(value).length;
+      minLength = Math.min(minLength, length);
+      maxLength = Math.max(maxLength, length);
+    }
+  }
+
+  let profile: ColumnProfile = {
+    count,
+    missing: missingCount,
+    distinct: frequencies.size,
+    mostFrequent: null,
+    mostFrequentCount: 0
+  };
+
+  frequencies.forEach(frequency => {
+    if (frequency.count > profile.mostFrequentCount) {
+      profile.mostFrequent = frequency.value;
+      profile.mostFrequentCount = frequency.count;
+    }
+  });
+
+  if (numbers.length > 0) {
+    let sorted = Float64Array.from(numbers).sort();
+    profile.min = sorted[0];
+    profile.q1 = Private.quantile(sorted, 0.25);
+    profile.median = Private.quantile(sorted, 0.5);
+    profile.q3 = Private.quantile(sorted, 0.75);
+    profile.max = sorted[sorted.length - 1];
+  }
+
+  if (isNumeric && numbers.length > 0) {
+    let sum = 0;
+    let zeros = 0;
+    for (let value of numbers) {
+      sum += value;
+      if (value === 0) {
+        zeros++;
+      }
+    }
+    let mean = sum / numbers.length;
+
+    profile.zeros = zeros;
+    profile.mean = mean;
+    if (numbers.length > 1) {
+      let squares = 0;
+      for (let value of numbers) {
+        squares += (value - mean) * (value - mean);
+      }
+      profile.std = Math.sqrt(squares / (numbers.length - 1));
+    }
+  }
+
+  if (minLength <= maxLength) {
+    profile.minLength = minLength;
+    profile.maxLength = maxLength;
+  }
+
+  return profile;
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The number of rows of a distinct value.
+   */
+  export
+  interface IFrequency {
+    /**
+     * The first row value with the key.
+     */
+    value: any;
+
+    /**
+     * The number of rows with the value.
+     */
+    count: number;
+  }
+
+  /**
+   * Interpolate a quantile of sorted values.
+   */
+  export
+  function quantile(sorted: Float64Array, p: number): number {
+    let position = (sorted.length - 1) * p;
+    let lower = Math.floor(position);
+    let upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower]);
+  }
+}
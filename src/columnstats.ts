@@ -0,0 +1,584 @@
+import TypedFastBitSet = require('typedfastbitset');
+
+import {
+  generateTicks
+} from './ticks';
+
+
+/**
+ * A request to compute the statistics of one column.
+ *
+ * The column is passed in its columnar storage form so the request can
+ * be posted to a worker: integer and float columns as `values`, all
+ * other columns as dictionary `codes` into `dictionary`.
+ */
+export
+interface StatsRequest {
+  /**
+   * The identifier echoed back in the result.
+   */
+  id: number;
+
+  /**
+   * The column type.
+   */
+  type: string;
+
+  /**
+   * The values of a numeric column, with `NaN` for missing values.
+   */
+  values: Float64Array | null;
+
+  /**
+   * The dictionary codes of a column, with `-1` for missing values.
+   */
+  codes: Int32Array | null;
+
+  /**
+   * The distinct values referenced by the codes.
+   */
+  dictionary: Array<any> | null;
+
+  /**
+   * The bitset words of the rows with a missing value.
+   */
+  nulls: Uint32Array;
+
+  /**
+   * The maximum number of bins of a string column. The less frequent
+   * values are lumped into a last bin.
+   */
+  maxCategories: number;
+
+  /**
+   * The fraction of distinct values above which a string column with
+   * more than `maxCategories` values is binned by text length.
+   */
+  uniqueRatio: number;
+}
+
+
+/**
+ * The computed statistics of one column.
+ */
+export
+interface StatsResult {
+  /**
+   * The identifier of the request.
+   */
+  id: number;
+
+  /**
+   * The bitset words of the rows with a missing value.
+   */
+  nulls: Uint32Array;
+
+  /**
+   * The minimum of a numeric or temporal column.
+   */
+  min?: number;
+
+  /**
+   * The maximum of a numeric or temporal column.
+   */
+  max?: number;
+
+  /**
+   * The histogram bin edges, or `null` for categorical columns.
+   */
+  edges: Array<number> | null;
+
+  /**
+   * The calendar unit of the bins of a temporal column.
+   */
+  unit: TimeUnit | null;
+
+  /**
+   * The number of calendar units per bin of a temporal column.
+   */
+  step: number;
+
+  /**
+   * The bitset words of each bin.
+   *
+   * Categorical columns have one bin per dictionary code, unless they are
+   * limited to their most frequent values.
+   */
+  bins: Array<Uint32Array>;
+
+  /**
+   * The dictionary codes of the bins of a string column, by decreasing
+   * count, or `null` for one bin per code.
+   *
+   * Only the codes of the rows get a bin. When the column is limited to
+   * its most frequent values, the bins of the codes are followed by the
+   * bin of the other values.
+   */
+  categories: Array<number> | null;
+
+  /**
+   * The number of distinct values in the last bin of a string column
+   * limited to its most frequent values, or `0` if there is no such bin.
+   */
+  otherCount: number;
+
+  /**
+   * Whether the bins of a string column are ranges of the text lengths,
+   * with the range of the lengths as `min` and `max`.
+   */
+  byLength: boolean;
+}
+
+
+/**
+ * A type alias for the calendar units used to bin temporal columns.
+ */
+export
+type TimeUnit = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+
+/**
+ * Compute the statistics of a column.
+ *
+ * @param request - The column to compute the statistics for.
+ *
+ * @returns The null bitmap, range and histogram bins of the column.
+ */
+export
+function computeStats(request: StatsRequest): StatsResult {
+  let result: StatsResult = {
+    id: request.id,
+    nulls: new Uint32Array(request.nulls),
+    edges: null,
+    unit: null,
+    step: 1,
+    bins: [],
+    categories: null,
+    otherCount: 0,
+    byLength: false
+  };
+
+  switch (request.type) {
+  case 'float':
+  case 'integer': {
+    let [min, max] = Private.valueRange(request, Number);
+    if (min !== undefined && max !== undefined) {
+      result.min = min;
+      result.max = max;
+      result.edges = numericEdges(min, max, request.type);
+      result.bins = Private.histogramBins(request, result.edges, Number);
+    }
+    break;
+  }
+  case 'date':
+  case 'datetime': {
+    let [min, max] = Private.valueRange(request, toTime);
+    if (min !== undefined && max !== undefined) {
+      let [unit, step] = Private.temporalUnit(min, max, request.type);
+      result.min = min;
+      result.max = max;
+      result.unit = unit;
+      result.step = step;
+      result.edges = temporalEdges(min, max, unit, step, request.type === 'date');
+      result.bins = Private.histogramBins(request, result.edges, toTime);
+    }
+    break;
+  }
+  case 'string': {
+    // Edits and missing values leave codes without rows in the dictionary,
+    // so only the codes in use are binned and counted.
+    let counts = Private.codeCounts(request);
+    let ranked = Private.rankCodes(counts);
+    let used = ranked.length;
+    let total = counts.reduce((a, b) => a + b, 0);
+    if (used <= request.maxCategories) {
+      result.categories = ranked;
+      result.bins = Private.categoryBins(request, ranked, false);
+      break;
+    }
+
+    // Bin mostly unique values by length, as their counts say little.
+    if (used >= request.uniqueRatio * total) {
+      let [min, max] = Private.valueRange(request, textLength);
+      result.min = min;
+      result.max = max;
+      result.edges = numericEdges(min!, max!, 'integer');
+      result.bins = Private.histogramBins(request, result.edges, textLength);
+      result.byLength = true;
+      break;
+    }
+
+    result.categories = ranked.slice(0, request.maxCategories);
+    result.otherCount = used - result.categories.length;
+    result.bins = Private.categoryBins(request, result.categories, true);
+    break;
+  }
+  case 'boolean':
+    result.bins = Private.categoryBins(request, null, false);
+    break;
+  }
+
+  return result;
+}
+
+
+/**
+ * Get the buffers of a stats result which can be transferred.
+ */
+export
+function transferables(result: StatsResult): Array<ArrayBuffer> {
+  let buffers = result.bins.map(words => words.buffer as ArrayBuffer);
+  buffers.push(result.nulls.buffer as ArrayBuffer);
+  return buffers;
+}
+
+
+/**
+ * Convert a date or datetime cell value to a timestamp.
+ */
+export
+function toTime(value: any): number {
+  return (value instanceof Date) ? value.getTime() : new Date(value).getTime();
+}
+
+
+/**
+ * Get the text length of a value of a string column.
+ */
+export
+function textLength(value: any): number {
+  return String(value).length;
+}
+
+
+/**
+ * Compute the bin edges for a numeric column.
+ *
+ * Integer columns with a small range get one bin per value, otherwise
+ * the edges are nice tick intervals spanning the column range.
+ */
+export
+function numericEdges(min: number, max: number, type: string): Array<number> {
+  if (min === max) {
+    return [min, max];
+  }
+
+  if (type === 'integer' && max - min < Private.numericBinCount) {
+    let edges = [];
+    for (let value = min; value <= max + 1; value++) {
+      edges.push(value);
+    }
+    return edges;
+  }
+
+  return generateTicks(min, max, Private.numericBinCount, false);
+}
+
+
+/**
+ * Compute the calendar-aligned bin edges of a temporal column.
+ *
+ * #### Notes
+ * Dates are parsed as UTC midnights, so their calendar is UTC; the
+ * datetimes follow the local calendar.
+ */
+export
+function temporalEdges(min: number, max: number, unit: TimeUnit, step: number, utc: boolean): Array<number> {
+  let edges = [];
+  let time = Private.floorTime(min, unit, step, utc);
+
+  do {
+    edges.push(time);
+    time = Private.addTime(time, unit, step, utc);
+  } while (time <= max);
+  edges.push(time);
+
+  return edges;
+}
+
+
+/**
+ * Find the index of the bin containing a value with a binary search.
+ *
+ * Bins are half-open intervals, except for the last which is closed.
+ */
+export
+function binIndex(edges: Array<number>, value: number): number {
+  let lo = 0;
+  let hi = edges.length - 2;
+  while (lo < hi) {
+    let mid = (lo + hi + 1) >> 1;
+    if (edges[mid] <= value) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The target number of bins for a numeric histogram.
+   */
+  export
+  const numericBinCount = 10;
+
+  /**
+   * The maximum number of bins for a temporal histogram.
+   */
+  const temporalBinCount = 24;
+
+  /**
+   * The approximate duration of each calendar unit in milliseconds.
+   */
+  const unitDurations: { [unit: string]: number } = {
+    hour: 36e5,
+    day: 864e5,
+    week: 7 * 864e5,
+    month: 30.44 * 864e5,
+    quarter: 91.31 * 864e5,
+    year: 365.25 * 864e5
+  };
+
+  /**
+   * Compute the range of the values of a column mapped with `toValue`.
+   */
+  export
+  function valueRange(request: StatsRequest, toValue: (value: any) => number): [number | undefined, number | undefined] {
+    let min: number | undefined;
+    let max: number | undefined;
+
+    let update = (value: number) => {
+      if (min === undefined || value < min) {
+        min = value;
+      }
+      if (max === undefined || value > max) {
+        max = value;
+      }
+    };
+
+    if (request.values !== null) {
+      let values = request.values;
+      for (let row = 0; row < values.length; row++) {
+        let value = values[row];
+        if (value === value) {
+          update(value);
+        }
+      }
+    } else if (request.dictionary !== null) {
+      // Skip the unused codes, as for the string bins.
+      let counts = codeCounts(request);
+      request.dictionary.forEach((value, code) => {
+        if (counts[code] > 0) {
+          update(toValue(value));
+        }
+      });
+    }
+
+    return [min, max];
+  }
+
+  /**
+   * Count the rows of each dictionary code.
+   */
+  export
+  function codeCounts(request: StatsRequest): Array<number> {
+    let codes = request.codes!;
+    let counts = request.dictionary!.map(() => 0);
+    for (let row = 0; row < codes.length; row++) {
+      if (codes[row] >= 0) {
+        counts[codes[row]]++;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Rank the used dictionary codes by decreasing count.
+   */
+  export
+  function rankCodes(counts: Array<number>): Array<number> {
+    let codes: Array<number> = [];
+    counts.forEach((count, code) => {
+      if (count > 0) {
+        codes.push(code);
+      }
+    });
+    return codes.sort((a, b) => counts[b] - counts[a] || a - b);
+  }
+
+  /**
+   * Create the bitset words of the bins of the dictionary codes.
+   *
+   * @param categories - The codes with a bin of their own, or `null` for
+   *   one bin per code.
+   *
+   * @param other - Whether the codes are followed by a bin of the other
+   *   codes.
+   */
+  export
+  function categoryBins(request: StatsRequest, categories: Array<number> | null, other: boolean): Array<Uint32Array> {
+    let codes = request.codes!;
+    let dictionary = request.dictionary!;
+
+    let codeBins: Array<number>;
+    let bitsets: Array<TypedFastBitSet>;
+    if (categories === null) {
+      codeBins = dictionary.map((value, code) => code);
+      bitsets = dictionary.map(() => new TypedFastBitSet());
+    } else {
+      codeBins = dictionary.map(() => other ? categories.length : -1);
+      categories.forEach((code, i) => { codeBins[code] = i; });
+      bitsets = (other ? [...categories, -1] : categories).map(() => new TypedFastBitSet());
+    }
+
+    for (let row = 0; row < codes.length; row++) {
+      let code = codes[row];
+      if (code >= 0 && codeBins[code] >= 0) {
+        bitsets[codeBins[code]].add(row);
+      }
+    }
+
+    return bitsets.map(trimmedWords);
+  }
+
+  /**
+   * Create the bitset words of the histogram bins for the given edges.
+   */
+  export
+  function histogramBins(request: StatsRequest, edges: Array<number>, toValue: (value: any) => number): Array<Uint32Array> {
+    let bitsets: Array<TypedFastBitSet> = [];
+    for (let i = 0; i < edges.length - 1; i++) {
+      bitsets.push(new TypedFastBitSet());
+    }
+
+    if (request.values !== null) {
+      let values = request.values;
+      for (let row = 0; row < values.length; row++) {
+        let value = values[row];
+        if (value === value) {
+          bitsets[binIndex(edges, value)].add(row);
+        }
+      }
+    } else if (request.dictionary !== null) {
+      // Bin each distinct value once, then look the rows up by code.
+      let codeBins = request.dictionary.map(value => bitsets[binIndex(edges, toValue(value))]);
+      let codes = request.codes!;
+      for (let row = 0; row < codes.length; row++) {
+        let code = codes[row];
+        if (code >= 0) {
+          codeBins[code].add(row);
+        }
+      }
+    }
+
+    return bitsets.map(trimmedWords);
+  }
+
+  /**
+   * Get the words of a bitset trimmed to their minimum length.
+   */
+  function trimmedWords(bitset: TypedFastBitSet): Uint32Array {
+    bitset.trim();
+    return bitset.words;
+  }
+
+  /**
+   * Pick the calendar unit and step that spans a time range.
+   */
+  export
+  function temporalUnit(min: number, max: number, type: string): [TimeUnit, number] {
+    let span = max - min;
+    let units: Array<TimeUnit> = ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+    for (let unit of units) {
+      if (unit === 'hour' && type === 'date') {
+        continue;
+      }
+      if (span / unitDurations[unit] < temporalBinCount) {
+        return [unit, 1];
+      }
+    }
+
+    // Group years by a nice step for long spans.
+    let years = span / unitDurations.year;
+    let step = 1;
+    for (let i = 0; years / step >= temporalBinCount; i++) {
+      step = [2, 5, 10][i % 3] * Math.pow(10, Math.floor(i / 3));
+    }
+    return ['year', step];
+  }
+
+  /**
+   * Round a timestamp down to the start of a calendar unit.
+   */
+  export
+  function floorTime(time: number, unit: TimeUnit, step: number, utc: boolean): number {
+    let [year, month, day, hour, weekday] = dateParts(new Date(time), utc);
+    switch (unit) {
+    case 'year':
+      return makeTime(year - year % step, 0, 1, 0, utc);
+    case 'quarter':
+      return makeTime(year, month - month % 3, 1, 0, utc);
+    case 'month':
+      return makeTime(year, month, 1, 0, utc);
+    case 'week':
+      return makeTime(year, month, day - weekday, 0, utc);
+    case 'day':
+      return makeTime(year, month, day, 0, utc);
+    case 'hour':
+      return makeTime(year, month, day, hour, utc);
+    default:
+      throw 'unreachable';
+    }
+  }
+
+  /**
+   * Advance a timestamp by a number of calendar units.
+   */
+  export
+  function addTime(time: number, unit: TimeUnit, step: number, utc: boolean): number {
+    let [year, month, day, hour] = dateParts(new Date(time), utc);
+    switch (unit) {
+    case 'year':
+      return makeTime(year + step, month, day, hour, utc);
+    case 'quarter':
+      return makeTime(year, month + 3 * step, day, hour, utc);
+    case 'month':
+      return makeTime(year, month + step, day, hour, utc);
+    case 'week':
+      return makeTime(year, month, day + 7 * step, hour, utc);
+    case 'day':
+      return makeTime(year, month, day + step, hour, utc);
+    case 'hour':
+      return makeTime(year, month, day, hour + step, utc);
+    default:
+      throw 'unreachable';
+    }
+  }
+
+  /**
+   * Get the year, month, day, hour and weekday of a date, in UTC or local.
+   */
+  function dateParts(date: Date, utc: boolean): [number, number, number, number, number] {
+    if (utc) {
+      return [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCDay()];
+    }
+    return [date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getDay()];
+  }
+
+  /**
+   * Create a timestamp from calendar fields, in UTC or local.
+   */
+  function makeTime(year: number, month: number, day: number, hour: number, utc: boolean): number {
+    if (utc) {
+      return Date.UTC(year, month, day, hour);
+    }
+    return new Date(year, month, day, hour).getTime();
+  }
+}
@@ -0,0 +1,705 @@
+import TypedFastBitSet = require('typedfastbitset');
+
+import {
+  toTime
+} from './columnstats';
+
+
+/**
+ * A read-only view of the values of a single column.
+ *
+ * Arrow vectors satisfy this interface, so columns can be read in place.
+ */
+export
+interface ColumnVector {
+  readonly length: number;
+  get(index: number): any;
+}
+
+
+/**
+ * A column of numbers stored in a typed array.
+ *
+ * Missing values are stored as `NaN` and recorded in the null bitmap.
+ */
+export
+class NumericColumn implements ColumnVector {
+  /**
+   * Construct a new numeric column.
+   *
+   * @param values - The values of the column.
+   *
+   * @param nulls - The bitmap of the rows with a missing value.
+   */
+  constructor(values: Float64Array, nulls: TypedFastBitSet) {
+    this._buffer = values;
+    this._values = values;
+    this.nulls = nulls;
+  }
+
+  /**
+   * The number of rows in the column.
+   */
+  get length(): number {
+    return this._values.length;
+  }
+
+  /**
+   * The values of the column.
+   */
+  get values(): Float64Array {
+    return this._values;
+  }
+
+  /**
+   * Get the value of a row, or `null` if it is missing.
+   */
+  get(index: number): any {
+    return this.nulls.has(index) ? null : this._values[index];
+  }
+
+  /**
+   * Append values to the end of the column.
+   *
+   * @param values - The values to append, with `null` for missing values.
+   */
+  append(values: Array<any>): void {
+    let start = this._values.length;
+    let length = start + values.length;
+    this._buffer = Private.grow(this._buffer, length, Float64Array);
+    this._values = this._buffer.subarray(0, length);
+
+    for (let i = 0; i < values.length; i++) {
+      let value = values[i];
+      if (value === null || value === undefined) {
+        this.nulls.add(start + i);
+        this._values[start + i] = NaN;
+      } else {
+        this._values[start + i] = value;
+      }
+    }
+  }
+
+  /**
+   * Set the value of a row.
+   *
+   * @param index - The index of the row.
+   *
+   * @param value - The new value, or `null` for a missing value.
+   */
+  set(index: number, value: any): void {
+    if (value === null || value === undefined) {
+      this.nulls.add(index);
+      this._values[index] = NaN;
+    } else {
+      this.nulls.remove(index);
+      this._values[index] = value;
+    }
+  }
+
+  /**
+   * Remove rows from the column, moving up the rows below them.
+   *
+   * @param rows - The rows to remove.
+   */
+  remove(rows: TypedFastBitSet): void {
+    let length = 0;
+    this.nulls.words.fill(0);
+    for (let i = 0; i < this._values.length; i++) {
+      if (rows.has(i)) {
+        continue;
+      }
+      let value = this._values[i];
+      if (isNaN(value)) {
+        this.nulls.add(length);
+      }
+      this._buffer[length++] = value;
+    }
+    this._values = this._buffer.subarray(0, length);
+  }
+
+  /**
+   * The bitmap of the rows with a missing value.
+   */
+  readonly nulls: TypedFastBitSet;
+
+  private _buffer: Float64Array;
+  private _values: Float64Array;
+}
+
+
+/**
+ * A column of dictionary-encoded values.
+ *
+ * Each row stores the index of its value in the dictionary. Missing values
+ * are stored as code `-1` and recorded in the null bitmap.
+ */
+export
+class DictionaryColumn implements ColumnVector {
+  /**
+   * Construct a new dictionary column.
+   *
+   * @param codes - The dictionary index of each row.
+   *
+   * @param dictionary - The distinct values of the column.
+   *
+   * @param nulls - The bitmap of the rows with a missing value.
+   */
+  constructor(codes: Int32Array, dictionary: Array<any>, nulls: TypedFastBitSet) {
+    this._buffer = codes;
+    this._codes = codes;
+    this.dictionary = dictionary;
+    this.nulls = nulls;
+  }
+
+  /**
+   * The number of rows in the column.
+   */
+  get length(): number {
+    return this._codes.length;
+  }
+
+  /**
+   * The dictionary index of each row.
+   */
+  get codes(): Int32Array {
+    return this._codes;
+  }
+
+  /**
+   * Get the value of a row, or `null` if it is missing.
+   */
+  get(index: number): any {
+    let code = this._codes[index];
+    return (code < 0) ? null : this.dictionary[code];
+  }
+
+  /**
+   * Append values to the end of the column.
+   *
+   * @param values - The values to append, with `null` for missing values.
+   *
+   * #### Notes
+   * Values which are not in the dictionary yet are added to its end.
+   */
+  append(values: Array<any>): void {
+    let start = this._codes.length;
+    let length = start + values.length;
+    this._buffer = Private.grow(this._buffer, length, Int32Array);
+    this._codes = this._buffer.subarray(0, length);
+
+    for (let i = 0; i < values.length; i++) {
+      let value = values[i];
+      if (value === null || value === undefined) {
+        this.nulls.add(start + i);
+        this._codes[start + i] = -1;
+      } else {
+        this._codes[start + i] = this._codeOf(value);
+      }
+    }
+  }
+
+  /**
+   * Set the value of a row.
+   *
+   * @param index - The index of the row.
+   *
+   * @param value - The new value, or `null` for a missing value.
+   */
+  set(index: number, value: any): void {
+    if (value === null || value === undefined) {
+      this.nulls.add(index);
+      this._codes[index] = -1;
+    } else {
+      this.nulls.remove(index);
+      this._codes[index] = this._codeOf(value);
+    }
+  }
+
+  /**
+   * Remove rows from the column, moving up the rows below them.
+   *
+   * @param rows - The rows to remove.
+   *
+   * #### Notes
+   * The dictionary keeps the values of the removed rows.
+   */
+  remove(rows: TypedFastBitSet): void {
+    let length = 0;
+    this.nulls.words.fill(0);
+    for (let i = 0; i < this._codes.length; i++) {
+      if (rows.has(i)) {
+        continue;
+      }
+      let code = this._codes[i];
+      if (code < 0) {
+        this.nulls.add(length);
+      }
+      this._buffer[length++] = code;
+    }
+    this._codes = this._buffer.subarray(0, length);
+  }
+
+  /**
+   * Get the dictionary index of a value, adding it to the dictionary.
+   */
+  private _codeOf(value: any): number {
+    if (this._lookup === null) {
+      this._lookup = new Map<any, number>();
+      this.dictionary.forEach((value, code) => { this._lookup!.set(Private.lookupKey(value), code); });
+    }
+
+    let key = Private.lookupKey(value);
+    let code = this._lookup.get(key);
+    if (code === undefined) {
+      code = this.dictionary.length;
+      this.dictionary.push(value);
+      this._lookup.set(key, code);
+    }
+    return code;
+  }
+
+  /**
+   * The distinct values of the column, in order of first appearance.
+   */
+  readonly dictionary: Array<any>;
+
+  /**
+   * The bitmap of the rows with a missing value.
+   */
+  readonly nulls: TypedFastBitSet;
+
+  private _buffer: Int32Array;
+  private _codes: Int32Array;
+  private _lookup: Map<any, number> | null = null;
+}
+
+
+/**
+ * Encode the values of a column into columnar storage.
+ *
+ * Integer and float columns are stored in a typed array, all other
+ * columns are dictionary encoded.
+ *
+ * @param values - The column values to encode.
+ *
+ * @param type - The column type.
+ *
+ * @returns A new column holding a copy of the values.
+ */
+export
+function encodeColumn(values: ColumnVector, type: string): NumericColumn | DictionaryColumn {
+  let length = values.length;
+  let nulls = new TypedFastBitSet();
+
+  if (type === 'integer' || type === 'float') {
+    let array = new Float64Array(length);
+    for (let i = 0; i < length; i++) {
+      let value = values.get(i);
+      if (value === null || value === undefined) {
+        nulls.add(i);
+        array[i] = NaN;
+      } else {
+        array[i] = value;
+      }
+    }
+    nulls.trim();
+    return new NumericColumn(array, nulls);
+  }
+
+  let codes = new Int32Array(length);
+  let dictionary: Array<any> = [];
+  let lookup = new Map<any, number>();
+
+  for (let i = 0; i < length; i++) {
+    let value = values.get(i);
+    if (value === null || value === undefined) {
+      nulls.add(i);
+      codes[i] = -1;
+      continue;
+    }
+
+    let key = Private.lookupKey(value);
+    let code = lookup.get(key);
+    if (code === undefined) {
+      code = dictionary.length;
+      dictionary.push(value);
+      lookup.set(key, code);
+    }
+    codes[i] = code;
+  }
+  nulls.trim();
+  return new DictionaryColumn(codes, dictionary, nulls);
+}
+
+
+/**
+ * A type alias for a function comparing two rows of a column.
+ */
+export
+type RowComparator = (a: number, b: number) => number;
+
+
+/**
+ * Create a function comparing two rows by the values of a column.
+ *
+ * @param values - The column values to compare.
+ *
+ * @param type - The column type.
+ *
+ * @param descending - Whether to order the values from largest to smallest.
+ *
+ * @param missing - The test of the text of a value counted as missing.
+ *   The default only counts `null` values as missing.
+ *
+ * @returns A new comparator ordering the rows by value, with missing
+ *   values last in either direction.
+ */
+export
+function rowComparator(values: ColumnVector, type: string, descending: boolean,
+  missing?: (text: string) => boolean): RowComparator {
+  let compare = Private.valueComparator(values, type, descending ? -1 : 1);
+  if (missing === undefined) {
+    return compare;
+  }
+  let rows = selectMatches(values, missing);
+  if (rows.size() === 0) {
+    return compare;
+  }
+
+  // Sort the values counted as missing with the missing values.
+  rows.union(selectNulls(values));
+  return (a: number, b: number) => {
+    let ma = rows.has(a);
+    let mb = rows.has(b);
+    if (ma || mb) {
+      return (ma ? 1 : 0) - (mb ? 1 : 0);
+    }
+    return compare(a, b);
+  };
+}
+
+
+/**
+ * Select the rows of a numeric or temporal column with a value in a range.
+ *
+ * @param values - The column values to test.
+ *
+ * @param type - The column type.
+ *
+ * @param min - The inclusive lower bound of the range.
+ *
+ * @param max - The upper bound of the range.
+ *
+ * @param closed - Whether the upper bound is inclusive.
+ *
+ * @param missing - The test of the text of a value counted as missing.
+ *
+ * @returns A new bitset of the rows with a value in the range.
+ */
+export
+function selectRange(values: ColumnVector, type: string, min: number, max: number, closed: boolean,
+  missing?: (text: string) => boolean): TypedFastBitSet {
+  return selectNumbers(values, type, value => value >= min && (value < max || (closed && value === max)), missing);
+}
+
+
+/**
+ * Select the rows of a numeric or temporal column with a value passing a test.
+ *
+ * @param values - The column values to test.
+ *
+ * @param type - The column type.
+ *
+ * @param test - The test of a value, given as a number or a timestamp.
+ *
+ * @param missing - The test of the text of a value counted as missing.
+ *
+ * @returns A new bitset of the rows with a matching value. Missing
+ *   values never match.
+ */
+export
+function selectNumbers(values: ColumnVector, type: string, test: (value: number) => boolean,
+  missing?: (text: string) => boolean): TypedFastBitSet {
+  let rows = new TypedFastBitSet();
+
+  if (values instanceof NumericColumn) {
+    let array = values.values;
+    for (let i = 0; i < array.length; i++) {
+      if (array[i] === array[i] && test(array[i])) {
+        rows.add(i);
+      }
+    }
+  } else if (values instanceof DictionaryColumn) {
+    // Test each distinct value once, then look the rows up by code.
+    let selected = values.dictionary.map(value => test(Private.toNumber(value, type)));
+    let codes = values.codes;
+    for (let i = 0; i < codes.length; i++) {
+      if (codes[i] >= 0 && selected[codes[i]]) {
+        rows.add(i);
+      }
+    }
+  } else {
+    for (let i = 0; i < values.length; i++) {
+      let value = values.get(i);
+      if (value !== null && test(Private.toNumber(value, type))) {
+        rows.add(i);
+      }
+    }
+  }
+
+  if (missing !== undefined) {
+    rows.difference(selectMatches(values, missing));
+  }
+  return rows;
+}
+
+
+/**
+ * Select the rows of a column with a missing value.
+ *
+ * @param values - The column values to test.
+ *
+ * @returns A new bitset of the rows with a missing value.
+ */
+export
+function selectNulls(values: ColumnVector): TypedFastBitSet {
+  if (values instanceof NumericColumn || values instanceof DictionaryColumn) {
+    return values.nulls.clone();
+  }
+
+  let rows = new TypedFastBitSet();
+  for (let i = 0; i < values.length; i++) {
+    if (values.get(i) === null) {
+      rows.add(i);
+    }
+  }
+  return rows;
+}
+
+
+/**
+ * Create a bitset of all the rows of a column.
+ *
+ * @param length - The number of rows.
+ *
+ * @returns A new bitset holding the rows `0` to `length - 1`.
+ */
+export
+function allRows(length: number): TypedFastBitSet {
+  let count = (length + 31) >>> 5;
+  let words = new Uint32Array(count).fill(0xFFFFFFFF);
+  if (length % 32 !== 0) {
+    words[count - 1] = (1 << (length % 32)) - 1;
+  }
+
+  let rows = new TypedFastBitSet();
+  rows.words = words;
+  rows.count = count;
+  return rows;
+}
+
+
+/**
+ * Select the rows of a column with a value whose text passes a test.
+ *
+ * @param values - The column values to test.
+ *
+ * @param test - The test of the text of a value.
+ *
+ * @param format - The conversion of a value to its text. The default is
+ *   `String`.
+ *
+ * @returns A new bitset of the rows with a matching value. Missing
+ *   values never match.
+ */
+export
+function selectMatches(values: ColumnVector, test: (text: string) => boolean,
+  format: (value: any) => string = String): TypedFastBitSet {
+  let rows = new TypedFastBitSet();
+
+  if (values instanceof DictionaryColumn) {
+    // Test each distinct value once, then look the rows up by code.
+    let selected = values.dictionary.map(value => test(format(value)));
+    let codes = values.codes;
+    for (let i = 0; i < codes.length; i++) {
+      if (codes[i] >= 0 && selected[codes[i]]) {
+        rows.add(i);
+      }
+    }
+  } else if (values instanceof NumericColumn) {
+    let array = values.values;
+    for (let i = 0; i < array.length; i++) {
+      if (array[i] === array[i] && test(format(array[i]))) {
+        rows.add(i);
+      }
+    }
+  } else {
+    for (let i = 0; i < values.length; i++) {
+      let value = values.get(i);
+      if (value !== null && test(format(value))) {
+        rows.add(i);
+      }
+    }
+  }
+
+  return rows;
+}
+
+
+/**
+ * Mask the values of a column whose text passes a test as missing.
+ *
+ * @param values - The column values to mask.
+ *
+ * @param test - The test of the text of a value.
+ *
+ * @returns A new column holding a copy of the values, with the matching
+ *   values missing and left out of the dictionary, or the column itself
+ *   if no value matches.
+ */
+export
+function maskValues(values: NumericColumn | DictionaryColumn, test: (text: string) => boolean): NumericColumn | DictionaryColumn {
+  let rows = selectMatches(values, test);
+  if (rows.size() === 0) {
+    return values;
+  }
+
+  let nulls = values.nulls.clone();
+  nulls.union(rows);
+
+  if (values instanceof NumericColumn) {
+    let array = values.values.slice();
+    for (let row of rows.array()) {
+      array[row] = NaN;
+    }
+    return new NumericColumn(array, nulls);
+  }
+
+  // Renumber the codes of the values left in the dictionary.
+  let dictionary: Array<any> = [];
+  let recoded = values.dictionary.map(value => {
+    if (test(String(value))) {
+      return -1;
+    }
+    dictionary.push(value);
+    return dictionary.length - 1;
+  });
+
+  let codes = values.codes.map(code => (code < 0) ? -1 : recoded[code]);
+  return new DictionaryColumn(codes, dictionary, nulls);
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * Get the key of a value in the lookup of a dictionary.
+   *
+   * #### Notes
+   * Equal dates are distinct objects, so they are looked up by time.
+   */
+  export
+  function lookupKey(value: any): any {
+    return (value instanceof Date) ? value.getTime() : value;
+  }
+
+  /**
+   * Create a function comparing two rows by the values of a column, with
+   * the `null` values last.
+   */
+  export
+  function valueComparator(values: ColumnVector, type: string, sign: number): RowComparator {
+    if (values instanceof NumericColumn) {
+      let array = values.values;
+      return (a: number, b: number) => {
+        let va = array[a];
+        let vb = array[b];
+        if (va !== va || vb !== vb) {
+          return (va !== va ? 1 : 0) - (vb !== vb ? 1 : 0);
+        }
+        return sign * (va - vb);
+      };
+    }
+
+    if (values instanceof DictionaryColumn) {
+      // Rank the distinct values once, then compare the rows by rank.
+      let dictionary = values.dictionary;
+      let order = dictionary.map((value, code) => code);
+      order.sort((a, b) => compareValues(dictionary[a], dictionary[b], type));
+
+      let ranks = new Int32Array(dictionary.length);
+      for (let rank = 0; rank < order.length; rank++) {
+        ranks[order[rank]] = rank;
+      }
+
+      let codes = values.codes;
+      return (a: number, b: number) => {
+        let ca = codes[a];
+        let cb = codes[b];
+        if (ca < 0 || cb < 0) {
+          return (ca < 0 ? 1 : 0) - (cb < 0 ? 1 : 0);
+        }
+        return sign * (ranks[ca] - ranks[cb]);
+      };
+    }
+
+    return (a: number, b: number) => {
+      let va = values.get(a);
+      let vb = values.get(b);
+      if (va === null || vb === null) {
+        return (va === null ? 1 : 0) - (vb === null ? 1 : 0);
+      }
+      return sign * compareValues(va, vb, type);
+    };
+  }
+
+  /**
+   * Grow the buffer of a column to hold at least a number of values.
+   *
+   * The capacity is doubled so appending rows one batch at a time stays
+   * linear overall. The array type of the buffer creates the new buffer.
+   */
+  export
+  function grow<T extends Float64Array | Int32Array>(buffer: T, length: number, arrayType: new (length: number) => T): T {
+    if (length <= buffer.length) {
+      return buffer;
+    }
+
+    let capacity = Math.max(length, 2 * buffer.length, 64);
+    let grown = new arrayType(capacity);
+    grown.set(buffer);
+    return grown;
+  }
+
+  /**
+   * Convert a numeric or temporal value to a number.
+   */
+  export
+  function toNumber(value: any, type: string): number {
+    return (type === 'date' || type === 'datetime') ? toTime(value) : Number(value);
+  }
+
+  /**
+   * Compare two non-missing values of a column type.
+   */
+  export
+  function compareValues(a: any, b: any, type: string): number {
+    switch (type) {
+    case 'integer':
+    case 'float':
+      return Number(a) - Number(b);
+    case 'date':
+    case 'datetime':
+      return toTime(a) - toTime(b);
+    case 'boolean':
+      return (a ? 1 : 0) - (b ? 1 : 0);
+    default:
+      let sa = String(a);
+      let sb = String(b);
+      return (sa < sb) ? -1 : (sa > sb) ? 1 : 0;
+    }
+  }
+}
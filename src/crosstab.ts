@@ -0,0 +1,475 @@
+import TypedFastBitSet = require('typedfastbitset');
+
+import {
+  Message
+} from '@lumino/messaging';
+
+import {
+  Widget
+} from '@lumino/widgets';
+
+import {
+  DataModel
+} from '@lumino/datagrid';
+
+import {
+  ColumnBin, ColumnStats, TableDataModel
+} from './tabledatamodel';
+
+
+/**
+ * A widget showing a crosstab heatmap of two columns of a table.
+ *
+ * #### Notes
+ * The rows and columns of the crosstab are the histogram bins of the two
+ * columns, so categorical columns are crossed by value and numeric or
+ * temporal columns by bin. Missing values get a row and a column of their
+ * own when there are any.
+ *
+ * Clicking a cell filters the table to the rows of both bins, and
+ * clicking it again clears the filter.
+ */
+export
+class Crosstab extends Widget {
+  /**
+   * Construct a new crosstab.
+   *
+   * @param options - The options for initializing the crosstab.
+   */
+  constructor(options: Crosstab.IOptions) {
+    super();
+    this.addClass('p-Crosstab');
+    this._model = options.model;
+    this._rowColumn = options.rowColumn;
+    this._columnColumn = options.columnColumn;
+    this._mode = options.mode || 'count';
+    this._linked = options.linked !== false;
+
+    let mode = document.createElement('select');
+    for (let [value, label] of Private.modeLabels) {
+      let option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      mode.appendChild(option);
+    }
+    mode.value = this._mode;
+
+    let linked = document.createElement('input');
+    linked.type = 'checkbox';
+    linked.checked = this._linked;
+
+    let linkedLabel = document.createElement('label');
+    linkedLabel.append(linked, 'Linked to the filter');
+
+    let controls = document.createElement('div');
+    controls.className = 'p-Crosstab-controls';
+    controls.append(mode, linkedLabel);
+
+    this._body = document.createElement('div');
+    this._body.className = 'p-Crosstab-body';
+    this.node.append(controls, this._body);
+
+    this._modeSelect = mode;
+    this._linkedInput = linked;
+    this._model.changed.connect(this._onModelChanged, this);
+  }
+
+  /**
+   * Dispose of the resources held by the crosstab.
+   */
+  dispose(): void {
+    this._model.changed.disconnect(this._onModelChanged, this);
+    super.dispose();
+  }
+
+  /**
+   * The table data model of the crosstab.
+   */
+  get model(): TableDataModel {
+    return this._model;
+  }
+
+  /**
+   * The values shown in the cells of the crosstab.
+   */
+  get mode(): Crosstab.Mode {
+    return this._mode;
+  }
+
+  set mode(value: Crosstab.Mode) {
+    if (this._mode === value) {
+      return;
+    }
+    this._mode = value;
+    this._modeSelect.value = value;
+    this.update();
+  }
+
+  /**
+   * Whether the counts are restricted to the rows passing the filter of
+   * the table.
+   *
+   * #### Notes
+   * The filters of the two crossed columns are left out, as for the
+   * linked bins of the histograms, so a filtered cell keeps its siblings.
+   */
+  get linked(): boolean {
+    return this._linked;
+  }
+
+  set linked(value: boolean) {
+    if (this._linked === value) {
+      return;
+    }
+    this._linked = value;
+    this._linkedInput.checked = value;
+    this._counts = null;
+    this.update();
+  }
+
+  /**
+   * Handle the DOM events for the crosstab.
+   *
+   * @param event - The DOM event sent to the crosstab.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'click':
+      this._evtClick(event as MouseEvent);
+      break;
+    case 'change':
+      this._evtChange(event);
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this.node.addEventListener('click', this);
+    this.node.addEventListener('change', this);
+    this.update();
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('click', this);
+    this.node.removeEventListener('change', this);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let names = this._model.columnNames;
+    if (this._rowColumn >= names.length || this._columnColumn >= names.length) {
+      this._showMessage('The columns of the crosstab were removed');
+      return;
+    }
+
+    let rowStats = this._model.columnStats(this._rowColumn);
+    let columnStats = this._model.columnStats(this._columnColumn);
+    if (rowStats.isComputing || columnStats.isComputing) {
+      this._showMessage('Computing\u2026');
+      return;
+    }
+
+    if (this._counts === null || rowStats !== this._rowStats || columnStats !== this._columnStats) {
+      this._rowStats = rowStats;
+      this._columnStats = columnStats;
+      this._rowBins = Private.crossBins(rowStats);
+      this._columnBins = Private.crossBins(columnStats);
+      // Count under the filters of the other columns, like linked bins.
+      let filter = this._linked ? this._model.filteredRowsExcept([this._rowColumn, this._columnColumn]) : null;
+      this._counts = Private.crossCounts(this._rowBins, this._columnBins, filter);
+    }
+
+    this._render(names[this._rowColumn], names[this._columnColumn]);
+  }
+
+  /**
+   * Render the table of the crosstab.
+   */
+  private _render(rowName: string, columnName: string): void {
+    let counts = this._counts!;
+    let rowBins = this._rowBins;
+    let columnBins = this._columnBins;
+    let rowTotals = counts.map(values => values.reduce((a, b) => a + b, 0));
+    let columnTotals = columnBins.map((bin, j) => counts.reduce((a, values) => a + values[j], 0));
+    let total = rowTotals.reduce((a, b) => a + b, 0);
+
+    let values = counts.map((row, i) => row.map((count, j) => {
+      return Private.cellValue(this._mode, count, rowTotals[i], columnTotals[j]);
+    }));
+    let maxValue = 0;
+    for (let row of values) {
+      for (let value of row) {
+        maxValue = Math.max(maxValue, value);
+      }
+    }
+
+    let table = document.createElement('table');
+
+    let head = table.createTHead().insertRow();
+    let corner = document.createElement('th');
+    corner.className = 'p-Crosstab-corner';
+    corner.textContent = `${rowName} \u2572 ${columnName}`;
+    head.appendChild(corner);
+    for (let bin of columnBins) {
+      head.appendChild(Private.createHeader(bin));
+    }
+    head.appendChild(Private.createHeader(null));
+
+    let body = table.createTBody();
+    rowBins.forEach((rowBin, i) => {
+      let row = body.insertRow();
+      row.appendChild(Private.createHeader(rowBin));
+      columnBins.forEach((columnBin, j) => {
+        let cell = row.insertCell();
+        let count = counts[i][j];
+        let value = values[i][j];
+        let weight = (maxValue > 0) ? value / maxValue : 0;
+        cell.className = 'p-Crosstab-cell';
+        if (rowBin.filter === 'include' && columnBin.filter === 'include') {
+          cell.classList.add('p-mod-selected');
+        }
+        cell.dataset.row = String(i);
+        cell.dataset.column = String(j);
+        cell.textContent = Private.formatValue(this._mode, value);
+        cell.title = `${rowBin.label} \u00d7 ${columnBin.label}: ${count.toLocaleString()} rows`;
+        cell.style.backgroundColor = Private.heatColor(weight);
+        cell.style.color = (weight > 0.6) ? '#FFFFFF' : '';
+      });
+      let totalCell = row.insertCell();
+      totalCell.className = 'p-Crosstab-total';
+      totalCell.textContent = rowTotals[i].toLocaleString();
+    });
+
+    let foot = table.createTFoot().insertRow();
+    foot.appendChild(Private.createHeader(null));
+    for (let count of [...columnTotals, total]) {
+      let cell = foot.insertCell();
+      cell.className = 'p-Crosstab-total';
+      cell.textContent = count.toLocaleString();
+    }
+
+    this._body.textContent = '';
+    this._body.appendChild(table);
+  }
+
+  /**
+   * Show a message in place of the table.
+   */
+  private _showMessage(text: string): void {
+    let message = document.createElement('div');
+    message.className = 'p-Crosstab-message';
+    message.textContent = text;
+    this._body.textContent = '';
+    this._body.appendChild(message);
+  }
+
+  /**
+   * Handle the `'click'` event for the crosstab.
+   */
+  private _evtClick(event: MouseEvent): void {
+    let cell = (event.target as HTMLElement).closest('.p-Crosstab-cell') as HTMLElement | null;
+    if (cell === null) {
+      return;
+    }
+
+    let rowBin = this._rowBins[Number(cell.dataset.row)];
+    let columnBin = this._columnBins[Number(cell.dataset.column)];
+    if (!rowBin || !columnBin) {
+      return;
+    }
+
+    // Toggle the filters off when the selected cell is clicked again.
+    let isNew = !(rowBin.filter === 'include' && columnBin.filter === 'include');
+    this._model.filterBin(this._rowColumn, rowBin.bitset, isNew);
+    this._model.filterBin(this._columnColumn, columnBin.bitset, isNew);
+  }
+
+  /**
+   * Handle the `'change'` event for the crosstab.
+   */
+  private _evtChange(event: Event): void {
+    if (event.target === this._modeSelect) {
+      this.mode = this._modeSelect.value as Crosstab.Mode;
+    } else if (event.target === this._linkedInput) {
+      this.linked = this._linkedInput.checked;
+    }
+  }
+
+  /**
+   * Handle a change of the table data model.
+   */
+  private _onModelChanged(sender: DataModel, args: DataModel.ChangedArgs): void {
+    // Hovering and brushing a histogram only redraw its header, while new
+    // statistics of a column are caught by comparing them on update.
+    if (args.type !== 'cells-changed' || args.region !== 'column-header' || args.columnSpan > 1) {
+      this._counts = null;
+    }
+    if (this.isAttached) {
+      this.update();
+    }
+  }
+
+  private _model: TableDataModel;
+  private _rowColumn: number;
+  private _columnColumn: number;
+  private _mode: Crosstab.Mode;
+  private _linked: boolean;
+  private _body: HTMLDivElement;
+  private _modeSelect: HTMLSelectElement;
+  private _linkedInput: HTMLInputElement;
+  private _rowStats: ColumnStats | null = null;
+  private _columnStats: ColumnStats | null = null;
+  private _rowBins: Array<ColumnBin> = [];
+  private _columnBins: Array<ColumnBin> = [];
+  private _counts: Array<Array<number>> | null = null;
+}
+
+
+/**
+ * The namespace for the `Crosstab` class statics.
+ */
+export
+namespace Crosstab {
+  /**
+   * A type alias for the values shown in the cells of a crosstab.
+   *
+   * `'count'` shows the rows of each cell, `'row'` and `'column'` the
+   * percentage of the rows of the crosstab row or column.
+   */
+  export
+  type Mode = 'count' | 'row' | 'column';
+
+  /**
+   * An options object for initializing a crosstab.
+   */
+  export
+  interface IOptions {
+    /**
+     * The table data model to cross the columns of.
+     */
+    model: TableDataModel;
+
+    /**
+     * The column whose bins are the rows of the crosstab.
+     */
+    rowColumn: number;
+
+    /**
+     * The column whose bins are the columns of the crosstab.
+     */
+    columnColumn: number;
+
+    /**
+     * The values shown in the cells.
+     *
+     * The default is `'count'`.
+     */
+    mode?: Mode;
+
+    /**
+     * Whether the counts are restricted to the rows passing the filters
+     * of the other columns.
+     *
+     * The default is `true`.
+     */
+    linked?: boolean;
+  }
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The labels of the crosstab modes.
+   */
+  export
+  const modeLabels: Array<[Crosstab.Mode, string]> = [
+    ['count', 'Counts'],
+    ['row', 'Row %'],
+    ['column', 'Column %']
+  ];
+
+  /**
+   * The heatmap colors of the lowest and highest values.
+   */
+  const lowColor = [255, 255, 255];
+  const highColor = [91, 132, 240];
+
+  /**
+   * Get the bins crossed for a column, with the missing values last.
+   */
+  export
+  function crossBins(stats: ColumnStats): Array<ColumnBin> {
+    let bins = stats.bins.slice();
+    if (stats.nullBin.count > 0) {
+      bins.push(stats.nullBin);
+    }
+    return bins;
+  }
+
+  /**
+   * Count the rows of each pair of bins.
+   */
+  export
+  function crossCounts(rowBins: Array<ColumnBin>, columnBins: Array<ColumnBin>, filter: TypedFastBitSet | null): Array<Array<number>> {
+    return rowBins.map(rowBin => {
+      let rows = (filter === null) ? rowBin.bitset : rowBin.bitset.new_intersection(filter);
+      return columnBins.map(columnBin => rows.intersection_size(columnBin.bitset));
+    });
+  }
+
+  /**
+   * Get the value of a cell in a crosstab mode.
+   */
+  export
+  function cellValue(mode: Crosstab.Mode, count: number, rowTotal: number, columnTotal: number): number {
+    switch (mode) {
+    case 'row':
+      return (rowTotal > 0) ? 100 * count / rowTotal : 0;
+    case 'column':
+      return (columnTotal > 0) ? 100 * count / columnTotal : 0;
+    default:
+      return count;
+    }
+  }
+
+  /**
+   * Format the value of a cell in a crosstab mode.
+   */
+  export
+  function formatValue(mode: Crosstab.Mode, value: number): string {
+    return (mode === 'count') ? value.toLocaleString() : `${value.toFixed(1)}%`;
+  }
+
+  /**
+   * Create a header cell for a bin, or for the totals.
+   */
+  export
+  function createHeader(bin: ColumnBin | null): HTMLTableHeaderCellElement {
+    let header = document.createElement('th');
+    header.textContent = (bin === null) ? 'Total' : bin.label;
+    if (bin !== null && bin.filter === 'include') {
+      header.className = 'p-mod-selected';
+    }
+    return header;
+  }
+
+  /**
+   * Interpolate the heatmap color of a weight between `0` and `1`.
+   */
+  export
+  function heatColor(weight: number): string {
+    let channels = lowColor.map((low, i) => Math.round(low + (highColor[i] - low) * weight));
+    return `rgb(${channels.join(', ')})`;
+  }
+}
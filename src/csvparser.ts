@@ -0,0 +1,431 @@
+import {
+  valuePatterns
+} from './valueparser';
+
+
+/**
+ * Parse delimited text into the row data of a table data model.
+ *
+ * @param text - The CSV or TSV text to parse.
+ *
+ * @param options - The options for parsing the text.
+ *
+ * @returns The rows, column names and column types of the text.
+ *
+ * #### Notes
+ * Fields may be quoted with `"`, in which case they can contain the
+ * delimiter, newlines and `""` escaped quotes.
+ *
+ * Unless given in the options, the delimiter is sniffed from the first
+ * records and the header row is detected from its values. Empty fields
+ * are missing values.
+ */
+export
+function parseCSV(text: string, options: parseCSV.IOptions = {}): parseCSV.IResult {
+  // Strip the byte order mark.
+  if (text.charCodeAt(0) === 0xFEFF) {
+    text = text.slice(1);
+  }
+
+  let delimiter = options.delimiter || Private.sniffDelimiter(text);
+  let records = Private.parseRecords(text, delimiter);
+
+  // Drop a trailing empty record left by a final newline.
+  let last = records[records.length - 1];
+  if (last && last.length === 1 && last[0] === '') {
+    records.pop();
+  }
+
+  let width = 0;
+  for (let record of records) {
+    width = Math.max(width, record.length);
+  }
+
+  let header = (options.header !== undefined) ?
+    options.header : Private.detectHeader(records);
+
+  let keys: Array<string> = [];
+  if (header && records.length > 0) {
+    let first = records.shift()!;
+    for (let i = 0; i < width; i++) {
+      keys.push(first[i] || `Column ${i + 1}`);
+    }
+  } else {
+    for (let i = 0; i < width; i++) {
+      keys.push(`Column ${i + 1}`);
+    }
+  }
+
+  let types: Array<string> = [];
+  for (let i = 0; i < width; i++) {
+    types.push(Private.inferColumnType(records, i));
+  }
+
+  let data = records.map(record => {
+    let row = new Array(width);
+    for (let i = 0; i < width; i++) {
+      row[i] = Private.convertValue(record[i], types[i]);
+    }
+    return row;
+  });
+
+  return { data, keys, types };
+}
+
+
+/**
+ * The namespace for the `parseCSV` function statics.
+ */
+export
+namespace parseCSV {
+  /**
+   * The options for parsing delimited text.
+   */
+  export
+  interface IOptions {
+    /**
+     * The field delimiter.
+     *
+     * The default is sniffed from the text.
+     */
+    delimiter?: string;
+
+    /**
+     * Whether the first record holds the column names.
+     *
+     * The default is detected from the text.
+     */
+    header?: boolean;
+  }
+
+  /**
+   * The result of parsing delimited text.
+   */
+  export
+  interface IResult {
+    /**
+     * The rows of converted values, with `null` for missing values.
+     */
+    data: Array<Array<any>>;
+
+    /**
+     * The column names.
+     */
+    keys: Array<string>;
+
+    /**
+     * The inferred column types.
+     */
+    types: Array<string>;
+  }
+}
+
+
+/**
+ * Infer the column type of a list of parsed values.
+ *
+ * @param values - The values of the column, with `null` for missing values.
+ *
+ * @returns The narrowest column type holding all of the values.
+ *
+ * #### Notes
+ * Numbers and booleans keep their type, strings are only tested for
+ * dates and datetimes.
+ */
+export
+function inferType(values: Array<any>): string {
+  let type: string | null = null;
+
+  for (let value of values) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    let next: string;
+    if (typeof value === 'number') {
+      next = Number.isInteger(value) ? 'integer' : 'float';
+    } else if (typeof value === 'boolean') {
+      next = 'boolean';
+    } else {
+      next = Private.valueType(String(value));
+      if (next !== 'date' && next !== 'datetime') {
+        next = 'string';
+      }
+    }
+
+    type = Private.mergeTypes(type, next);
+    if (type === 'string') {
+      break;
+    }
+  }
+
+  return type || 'string';
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The delimiters tried when sniffing the text.
+   */
+  const delimiters = [',', '\t', ';', '|'];
+
+  /**
+   * The maximum number of characters read when sniffing the text.
+   */
+  const sniffLength = 64 * 1024;
+
+  /**
+   * Sniff the delimiter of the text.
+   *
+   * The delimiter which splits the leading records into the most fields,
+   * consistently across records, is picked.
+   */
+  export
+  function sniffDelimiter(text: string): string {
+    let sample = text.slice(0, sniffLength);
+
+    // Drop the last, possibly truncated, line of the sample.
+    let end = sample.lastIndexOf('\n');
+    if (end > 0 && text.length > sniffLength) {
+      sample = sample.slice(0, end);
+    }
+
+    let best = delimiters[0];
+    let bestScore = 0;
+
+    for (let delimiter of delimiters) {
+      let records = parseRecords(sample, delimiter).slice(0, 20);
+      let counts = new Map<number, number>();
+      for (let record of records) {
+        if (record.length > 1) {
+          counts.set(record.length, (counts.get(record.length) || 0) + 1);
+        }
+      }
+
+      // Score by the most common field count and how many records share it.
+      for (let [fields, count] of counts) {
+        let score = count * fields;
+        if (score > bestScore) {
+          best = delimiter;
+          bestScore = score;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Split the text into records of raw field strings.
+   */
+  export
+  function parseRecords(text: string, delimiter: string): Array<Array<string>> {
+    let records: Array<Array<string>> = [];
+    let record: Array<string> = [];
+    let length = text.length;
+    let i = 0;
+
+    while (i <= length) {
+      let field: string;
+
+      if (text[i] === '"') {
+        // Read a quoted field, unescaping doubled quotes.
+        let parts: Array<string> = [];
+        let start = ++i;
+        while (i < length) {
+          if (text[i] === '"') {
+            if (text[i + 1] === '"') {
+              parts.push(text.slice(start, i + 1));
+              i += 2;
+              start = i;
+              continue;
+            }
+            break;
+          }
+          i++;
+        }
+        parts.push(text.slice(start, i));
+        field = parts.join('');
+        i++;
+
+        // Keep any characters between the closing quote and the delimiter.
+        let next = i;
+        while (next < length && text[next] !== delimiter && text[next] !== '\n' && text[next] !== '\r') {
+          next++;
+        }
+        field += text.slice(i, next);
+        i = next;
+      } else {
+        let start = i;
+        while (i < length && text[i] !== delimiter && text[i] !== '\n' && text[i] !== '\r') {
+          i++;
+        }
+        field = text.slice(start, i);
+      }
+
+      record.push(field);
+
+      if (i >= length) {
+        records.push(record);
+        break;
+      }
+
+      if (text[i] === delimiter) {
+        i++;
+        if (i === length) {
+          record.push('');
+          records.push(record);
+          break;
+        }
+        continue;
+      }
+
+      // End of the record, treating CRLF as a single line break.
+      if (text[i] === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      i++;
+      records.push(record);
+      record = [];
+
+      if (i === length) {
+        break;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Detect whether the first record holds the column names.
+   *
+   * It does when all of its fields are distinct, non-empty text values,
+   * and at least one column below it is not all text.
+   */
+  export
+  function detectHeader(records: Array<Array<string>>): boolean {
+    if (records.length < 2) {
+      return false;
+    }
+
+    let first = records[0];
+    if (first.some(field => field === '' || valueType(field) !== 'string')) {
+      return false;
+    }
+    if (new Set(first).size !== first.length) {
+      return false;
+    }
+
+    let body = records.slice(1);
+    for (let i = 0; i < first.length; i++) {
+      if (inferColumnType(body, i) !== 'string') {
+        return true;
+      }
+    }
+
+    // All text columns, assume a header unless its values repeat below.
+    let sample = body.slice(0, 100);
+    return !first.some((field, i) => sample.some(record => record[i] === field));
+  }
+
+  /**
+   * Infer the type of a column from its values.
+   */
+  export
+  function inferColumnType(records: Array<Array<string>>, column: number): string {
+    let type: string | null = null;
+
+    for (let record of records) {
+      let field = record[column];
+      if (field === undefined || field === '') {
+        continue;
+      }
+
+      type = mergeTypes(type, valueType(field));
+      if (type === 'string') {
+        break;
+      }
+    }
+
+    return type || 'string';
+  }
+
+  /**
+   * Get the narrowest type of a single field.
+   */
+  export
+  function valueType(field: string): string {
+    if (valuePatterns.integer.test(field)) {
+      return 'integer';
+    }
+    if (valuePatterns.float.test(field)) {
+      return 'float';
+    }
+    if (valuePatterns.boolean.test(field)) {
+      return 'boolean';
+    }
+    if (valuePatterns.date.test(field) && !isNaN(Date.parse(field))) {
+      return 'date';
+    }
+    if (valuePatterns.datetime.test(field) && !isNaN(Date.parse(field.replace(' ', 'T')))) {
+      return 'datetime';
+    }
+    return 'string';
+  }
+
+  /**
+   * Merge the type inferred so far with the type of another field.
+   */
+  export
+  function mergeTypes(current: string | null, next: string): string {
+    if (current === null || current === next) {
+      return next;
+    }
+    if (isNumeric(current) && isNumeric(next)) {
+      return 'float';
+    }
+    if (isTemporal(current) && isTemporal(next)) {
+      return 'datetime';
+    }
+    return 'string';
+  }
+
+  /**
+   * Test whether a type is integer or float.
+   */
+  function isNumeric(type: string): boolean {
+    return type === 'integer' || type === 'float';
+  }
+
+  /**
+   * Test whether a type is date or datetime.
+   */
+  function isTemporal(type: string): boolean {
+    return type === 'date' || type === 'datetime';
+  }
+
+  /**
+   * Convert a raw field to a value of the column type.
+   */
+  export
+  function convertValue(field: string | undefined, type: string): any {
+    if (field === undefined || field === '') {
+      return null;
+    }
+
+    switch (type) {
+    case 'integer':
+    case 'float':
+      return Number(field);
+    case 'boolean':
+      return field.toLowerCase() === 'true';
+    case 'datetime':
+      return field.replace(' ', 'T');
+    default:
+      return field;
+    }
+  }
+}
@@ -0,0 +1,769 @@
+import {
+  ColumnVector
+} from './columnstore';
+
+import {
+  toTime
+} from './columnstats';
+
+
+/**
+ * An expression compiled against the columns of a table.
+ */
+export
+interface CompiledExpression {
+  /**
+   * The column type of the expression values.
+   */
+  readonly type: string;
+
+  /**
+   * The indices of the columns read by the expression.
+   */
+  readonly columns: ReadonlyArray<number>;
+
+  /**
+   * Evaluate the expression for a row.
+   *
+   * @param values - The column values of the table.
+   *
+   * @param row - The index of the row.
+   *
+   * @returns The value of the expression, or `null` if it is missing.
+   */
+  evaluate(values: ReadonlyArray<ColumnVector>, row: number): any;
+}
+
+
+/**
+ * Compile an expression over the columns of a table.
+ *
+ * @param text - The expression text.
+ *
+ * @param keys - The column names.
+ *
+ * @param types - The column types.
+ *
+ * @param missing - The test of the text of a column value counted as
+ *   missing. The default only counts `null` values as missing.
+ *
+ * @returns The type checked, compiled expression.
+ *
+ * @throws An error describing the problem if the expression does not
+ *   parse or type check.
+ *
+ * #### Notes
+ * Expressions combine column names, literals (`12`, `1.5`, `'text'`,
+ * `true`, `false`, `null`), the operators `+ - * / %`, `= != < <= > >=`,
+ * `and`, `or`, `not`, parentheses and function calls such as
+ * `year(order_date)` or `lower(country)`. Column names which are not
+ * plain identifiers are quoted with backticks.
+ *
+ * A missing value in an operand makes the result missing, except for
+ * the `if`, `coalesce` and `isnull` functions.
+ */
+export
+function compileExpression(text: string, keys: ReadonlyArray<string>, types: ReadonlyArray<string>,
+  missing?: (column: number, text: string) => boolean): CompiledExpression {
+  let parser = new Private.Parser(text, keys, types, missing || null);
+  let node = parser.parse();
+  let type = (node.type === 'null') ? 'string' : node.type;
+  let evaluate = node.evaluate;
+  return { type, columns: parser.columns, evaluate };
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * A function evaluating a compiled node for a row.
+   */
+  export
+  type Evaluator = (values: ReadonlyArray<ColumnVector>, row: number) => any;
+
+  /**
+   * A type checked, compiled node of an expression.
+   */
+  export
+  interface INode {
+    /**
+     * The column type of the node values, or `'null'` for `null`.
+     */
+    type: string;
+
+    /**
+     * The evaluator of the node.
+     */
+    evaluate: Evaluator;
+  }
+
+  /**
+   * A token of an expression.
+   */
+  interface IToken {
+    kind: 'number' | 'string' | 'name' | 'column' | 'op' | 'end';
+    text: string;
+    position: number;
+  }
+
+  /**
+   * A function callable from an expression.
+   */
+  interface IFunction {
+    /**
+     * Get the result type for the argument types, throwing a message for
+     * invalid arguments.
+     */
+    check(types: Array<string>): string;
+
+    /**
+     * Call the function with argument values.
+     */
+    call(args: Array<any>, types: Array<string>): any;
+
+    /**
+     * Whether the function is called with missing argument values.
+     */
+    nulls?: boolean;
+  }
+
+  /**
+   * A recursive descent parser compiling an expression.
+   */
+  export
+  class Parser {
+    /**
+     * Construct a new parser.
+     */
+    constructor(text: string, keys: ReadonlyArray<string>, types: ReadonlyArray<string>,
+      missing: ((column: number, text: string) => boolean) | null) {
+      this._tokens = tokenize(text);
+      this._keys = keys;
+      this._types = types;
+      this._missing = missing;
+    }
+
+    /**
+     * The indices of the columns read by the expression.
+     */
+    readonly columns: Array<number> = [];
+
+    /**
+     * Parse the whole expression.
+     */
+    parse(): INode {
+      let node = this._parseOr();
+      let token = this._peek();
+      if (token.kind !== 'end') {
+        throw unexpected(token);
+      }
+      return node;
+    }
+
+    private _parseOr(): INode {
+      let left = this._parseAnd();
+      while (this._match('or')) {
+        left = logical('or', left, this._parseAnd());
+      }
+      return left;
+    }
+
+    private _parseAnd(): INode {
+      let left = this._parseNot();
+      while (this._match('and')) {
+        left = logical('and', left, this._parseNot());
+      }
+      return left;
+    }
+
+    private _parseNot(): INode {
+      if (this._match('not')) {
+        let operand = this._parseNot();
+        expectType(operand, isBoolean, '"not" expects a boolean');
+        let evaluate = operand.evaluate;
+        return { type: 'boolean', evaluate: (values, row) => {
+          let value = evaluate(values, row);
+          return (value === null) ? null : !value;
+        }};
+      }
+      return this._parseComparison();
+    }
+
+    private _parseComparison(): INode {
+      let left = this._parseAdditive();
+      let token = this._peek();
+      if (token.kind === 'op' && comparisons.indexOf(token.text) >= 0) {
+        this._next();
+        left = compare(token.text, left, this._parseAdditive());
+      }
+      return left;
+    }
+
+    private _parseAdditive(): INode {
+      let left = this._parseMultiplicative();
+      for (let op = this._peekOp('+', '-'); op !== null; op = this._peekOp('+', '-')) {
+        this._next();
+        left = arithmetic(op, left, this._parseMultiplicative());
+      }
+      return left;
+    }
+
+    private _parseMultiplicative(): INode {
+      let left = this._parseUnary();
+      for (let op = this._peekOp('*', '/', '%'); op !== null; op = this._peekOp('*', '/', '%')) {
+        this._next();
+        left = arithmetic(op, left, this._parseUnary());
+      }
+      return left;
+    }
+
+    private _parseUnary(): INode {
+      if (this._peekOp('-') !== null) {
+        this._next();
+        let operand = this._parseUnary();
+        expectType(operand, isNumeric, '"-" expects a number');
+        let evaluate = operand.evaluate;
+        return { type: operand.type, evaluate: (values, row) => {
+          let value = evaluate(values, row);
+          return (value === null) ? null : -value;
+        }};
+      }
+      return this._parsePrimary();
+    }
+
+    private _parsePrimary(): INode {
+      let token = this._next();
+
+      switch (token.kind) {
+      case 'number':
+        let number = Number(token.text);
+        let type = /^\d+$/.test(token.text) ? 'integer' : 'float';
+        return { type, evaluate: () => number };
+      case 'string':
+        let text = token.text;
+        return { type: 'string', evaluate: () => text };
+      case 'column':
+        return this._column(token.text, token);
+      case 'name':
+        let name = token.text.toLowerCase();
+        if (name === 'true' || name === 'false') {
+          let flag = name === 'true';
+          return { type: 'boolean', evaluate: () => flag };
+        }
+        if (name === 'null') {
+          return { type: 'null', evaluate: () => null };
+        }
+        if (this._peekOp('(') !== null) {
+          return this._call(token);
+        }
+        return this._column(token.text, token);
+      case 'op':
+        if (token.text === '(') {
+          let node = this._parseOr();
+          this._expect(')');
+          return node;
+        }
+        throw unexpected(token);
+      default:
+        throw unexpected(token);
+      }
+    }
+
+    /**
+     * Compile a reference to a column.
+     */
+    private _column(name: string, token: IToken): INode {
+      let column = this._keys.indexOf(name);
+      if (column < 0) {
+        let lower = name.toLowerCase();
+        column = this._keys.findIndex(key => key.toLowerCase() === lower);
+      }
+      if (column < 0) {
+        throw new Error(`Unknown column "${name}" at position ${token.position + 1}`);
+      }
+
+      if (this.columns.indexOf(column) < 0) {
+        this.columns.push(column);
+      }
+      let missing = this._missing;
+      return {
+        type: this._types[column],
+        evaluate: (values, row) => {
+          let value = values[column].get(row);
+          if (value === undefined || (value !== null && missing !== null && missing(column, String(value)))) {
+            return null;
+          }
+          return value;
+        }
+      };
+    }
+
+    /**
+     * Compile a function call.
+     */
+    private _call(token: IToken): INode {
+      let name = token.text.toLowerCase();
+      let fn = functions.get(name);
+      if (fn === undefined) {
+        throw new Error(`Unknown function "${token.text}" at position ${token.position + 1}`);
+      }
+
+      this._expect('(');
+      let args: Array<INode> = [];
+      if (this._peekOp(')') === null) {
+        do {
+          args.push(this._parseOr());
+        } while (this._match(','));
+      }
+      this._expect(')');
+
+      let types = args.map(arg => arg.type);
+      let type: string;
+      try {
+        type = fn.check(types);
+      } catch (err) {
+        throw new Error(`${name}(): ${err.message}`);
+      }
+
+      let evaluators = args.map(arg => arg.evaluate);
+      let call = fn.call;
+      let nulls = !!fn.nulls;
+      return { type, evaluate: (values, row) => {
+        let argValues = evaluators.map(evaluate => evaluate(values, row));
+        if (!nulls && argValues.indexOf(null) >= 0) {
+          return null;
+        }
+        return call(argValues, types);
+      }};
+    }
+
+    private _peek(): IToken {
+      return this._tokens[this._index];
+    }
+
+    private _next(): IToken {
+      let token = this._tokens[this._index];
+      if (token.kind !== 'end') {
+        this._index++;
+      }
+      return token;
+    }
+
+    private _peekOp(...ops: Array<string>): string | null {
+      let token = this._peek();
+      return (token.kind === 'op' && ops.indexOf(token.text) >= 0) ? token.text : null;
+    }
+
+    private _match(text: string): boolean {
+      let token = this._peek();
+      let matches = (token.kind === 'op' && token.text === text) ||
+        (token.kind === 'name' && token.text.toLowerCase() === text);
+      if (matches) {
+        this._next();
+      }
+      return matches;
+    }
+
+    private _expect(op: string): void {
+      let token = this._next();
+      if (token.kind !== 'op' || token.text !== op) {
+        throw new Error(`Expected "${op}" at position ${token.position + 1}`);
+      }
+    }
+
+    private _tokens: Array<IToken>;
+    private _index = 0;
+    private _keys: ReadonlyArray<string>;
+    private _types: ReadonlyArray<string>;
+    private _missing: ((column: number, text: string) => boolean) | null;
+  }
+
+  /**
+   * The comparison operators.
+   */
+  const comparisons = ['=', '==', '!=', '<>', '<', '<=', '>', '>='];
+
+  /**
+   * Split an expression into tokens.
+   */
+  function tokenize(text: string): Array<IToken> {
+    let tokens: Array<IToken> = [];
+    let pattern = /\s*(?:(\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?)|'((?:[^']|'')*)'|"((?:[^"]|"")*)"|`([^`]*)`|([A-Za-z_][A-Za-z0-9_]*)|(==|!=|<>|<=|>=|[-+*\/%()<>=,]))/y;
+
+    let position = 0;
+    while (true) {
+      // Skip the trailing white space.
+      if (/^\s*$/.test(text.slice(position))) {
+        tokens.push({ kind: 'end', text: '', position: text.length });
+        return tokens;
+      }
+
+      pattern.lastIndex = position;
+      let match = pattern.exec(text);
+      if (match === null) {
+        let start = position + (text.slice(position).length - text.slice(position).trimLeft().length);
+        throw new Error(`Unexpected "${text[start]}" at position ${start + 1}`);
+      }
+
+      let start = match.index + match[0].length - match[0].trimLeft().length;
+      if (match[1] !== undefined) {
+        tokens.push({ kind: 'number', text: match[1], position: start });
+      } else if (match[2] !== undefined) {
+        tokens.push({ kind: 'string', text: match[2].replace(/''/g, '\''), position: start });
+      } else if (match[3] !== undefined) {
+        tokens.push({ kind: 'string', text: match[3].replace(/""/g, '"'), position: start });
+      } else if (match[4] !== undefined) {
+        tokens.push({ kind: 'column', text: match[4], position: start });
+      } else if (match[5] !== undefined) {
+        tokens.push({ kind: 'name', text: match[5], position: start });
+      } else {
+        tokens.push({ kind: 'op', text: match[6], position: start });
+      }
+      position = pattern.lastIndex;
+    }
+  }
+
+  /**
+   * Create the error of an unexpected token.
+   */
+  function unexpected(token: IToken): Error {
+    if (token.kind === 'end') {
+      return new Error('Unexpected end of expression');
+    }
+    return new Error(`Unexpected "${token.text}" at position ${token.position + 1}`);
+  }
+
+  /**
+   * Throw a type error unless the type of a node passes a test.
+   */
+  function expectType(node: INode, test: (type: string) => boolean, message: string): void {
+    if (node.type !== 'null' && !test(node.type)) {
+      throw new Error(`${message}, not ${describe(node.type)}`);
+    }
+  }
+
+  /**
+   * Describe a type for an error message.
+   */
+  function describe(type: string): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+  }
+
+  export
+  function isNumeric(type: string): boolean {
+    return type === 'integer' || type === 'float';
+  }
+
+  export
+  function isTemporal(type: string): boolean {
+    return type === 'date' || type === 'datetime';
+  }
+
+  export
+  function isBoolean(type: string): boolean {
+    return type === 'boolean';
+  }
+
+  export
+  function isString(type: string): boolean {
+    return type === 'string';
+  }
+
+  /**
+   * Compile a logical operator, with `false and null` being `false` and
+   * `true or null` being `true`.
+   */
+  function logical(op: string, left: INode, right: INode): INode {
+    expectType(left, isBoolean, `"${op}" expects booleans`);
+    expectType(right, isBoolean, `"${op}" expects booleans`);
+    let a = left.evaluate;
+    let b = right.evaluate;
+    let decisive = op === 'or';
+
+    return { type: 'boolean', evaluate: (values, row) => {
+      let x = a(values, row);
+      if (x === decisive) {
+        return x;
+      }
+      let y = b(values, row);
+      if (y === decisive) {
+        return y;
+      }
+      return (x === null || y === null) ? null : !decisive;
+    }};
+  }
+
+  /**
+   * Compile a comparison of two operands.
+   */
+  function compare(op: string, left: INode, right: INode): INode {
+    let types = [left.type, right.type].filter(type => type !== 'null');
+    let ordered = op !== '=' && op !== '==' && op !== '!=' && op !== '<>';
+    let valid = types.length < 2 ||
+      types.every(isNumeric) || types.every(isTemporal) || types.every(isString) ||
+      (!ordered && types.every(isBoolean));
+    if (!valid) {
+      throw new Error(`Cannot compare ${describe(left.type)} with ${describe(right.type)}`);
+    }
+
+    let toValue = types.some(isTemporal) ? toTime : (value: any) => value;
+    let a = left.evaluate;
+    let b = right.evaluate;
+    let test = compareTest(op);
+
+    return { type: 'boolean', evaluate: (values, row) => {
+      let x = a(values, row);
+      let y = b(values, row);
+      return (x === null || y === null) ? null : test(toValue(x), toValue(y));
+    }};
+  }
+
+  /**
+   * Create the test of a comparison operator.
+   */
+  function compareTest(op: string): (x: any, y: any) => boolean {
+    switch (op) {
+    case '=':
+    case '==':
+      return (x, y) => x === y;
+    case '!=':
+    case '<>':
+      return (x, y) => x !== y;
+    case '<':
+      return (x, y) => x < y;
+    case '<=':
+      return (x, y) => x <= y;
+    case '>':
+      return (x, y) => x > y;
+    case '>=':
+      return (x, y) => x >= y;
+    default:
+      throw 'unreachable';
+    }
+  }
+
+  /**
+   * Compile an arithmetic operator, or the concatenation of strings.
+   */
+  function arithmetic(op: string, left: INode, right: INode): INode {
+    let a = left.evaluate;
+    let b = right.evaluate;
+
+    if (op === '+' && (left.type === 'string' || right.type === 'string')) {
+      return { type: 'string', evaluate: (values, row) => {
+        let x = a(values, row);
+        let y = b(values, row);
+        return (x === null || y === null) ? null : String(x) + String(y);
+      }};
+    }
+
+    expectType(left, isNumeric, `"${op}" expects numbers`);
+    expectType(right, isNumeric, `"${op}" expects numbers`);
+    let type = (op === '/' || left.type === 'float' || right.type === 'float') ? 'float' : 'integer';
+    let apply = arithmeticOp(op);
+
+    return { type, evaluate: (values, row) => {
+      let x = a(values, row);
+      let y = b(values, row);
+      if (x === null || y === null) {
+        return null;
+      }
+      let value = apply(x, y);
+      return isFinite(value) ? value : null;
+    }};
+  }
+
+  /**
+   * Get the function of an arithmetic operator.
+   */
+  function arithmeticOp(op: string): (x: number, y: number) => number {
+    switch (op) {
+    case '+':
+      return (x, y) => x + y;
+    case '-':
+      return (x, y) => x - y;
+    case '*':
+      return (x, y) => x * y;
+    case '/':
+      return (x, y) => x / y;
+    case '%':
+      return (x, y) => x % y;
+    default:
+      throw 'unreachable';
+    }
+  }
+
+  /**
+   * Get the common type of the branches of `if` or `coalesce`.
+   */
+  function unify(types: Array<string>): string {
+    let known = types.filter(type => type !== 'null');
+    if (known.length === 0) {
+      return 'null';
+    }
+    if (known.every(type => type === known[0])) {
+      return known[0];
+    }
+    if (known.every(isNumeric)) {
+      return 'float';
+    }
+    if (known.every(isTemporal)) {
+      return 'datetime';
+    }
+    throw new Error(`mixes ${known.join(' and ')} values`);
+  }
+
+  /**
+   * Create the checker of a function with fixed argument types.
+   */
+  function signature(result: string | ((types: Array<string>) => string), ...params: Array<(type: string) => boolean>): (types: Array<string>) => string {
+    return (types: Array<string>) => {
+      if (types.length !== params.length) {
+        throw new Error(`expects ${params.length} argument${params.length === 1 ? '' : 's'}`);
+      }
+      types.forEach((type, i) => {
+        if (type !== 'null' && !params[i](type)) {
+          throw new Error(`argument ${i + 1} cannot be ${describe(type)}`);
+        }
+      });
+      return (typeof result === 'string') ? result : result(types);
+    };
+  }
+
+  /**
+   * Accept a value of any type.
+   */
+  function isAny(type: string): boolean {
+    return true;
+  }
+
+  /**
+   * Get the parts of a date or datetime value, in UTC for dates.
+   */
+  function dateParts(value: any, type: string): Array<number> {
+    let date = new Date(toTime(value));
+    if (type === 'date') {
+      return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), 0, 0];
+    }
+    return [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes()];
+  }
+
+  /**
+   * Pad a number with a leading zero.
+   */
+  function pad(value: number): string {
+    return (value < 10) ? `0${value}` : String(value);
+  }
+
+  /**
+   * Create a function reading a part of a date or datetime.
+   */
+  function datePart(index: number): IFunction {
+    return {
+      check: signature('integer', isTemporal),
+      call: ([value], [type]) => dateParts(value, type)[index]
+    };
+  }
+
+  /**
+   * Create a function of a single number.
+   */
+  function math(fn: (value: number) => number, type?: string): IFunction {
+    return {
+      check: signature(type || ((types: Array<string>) => types[0] === 'null' ? 'float' : types[0]), isNumeric),
+      call: ([value]) => {
+        let result = fn(value);
+        return isFinite(result) ? result : null;
+      }
+    };
+  }
+
+  /**
+   * The functions callable from an expression, by lower case name.
+   */
+  export
+  const functions = new Map<string, IFunction>([
+    ['year', datePart(0)],
+    ['month', datePart(1)],
+    ['day', datePart(2)],
+    ['hour', datePart(3)],
+    ['minute', datePart(4)],
+    ['date', {
+      check: signature('date', isTemporal),
+      call: ([value], [type]) => {
+        let [year, month, day] = dateParts(value, type);
+        return `${year}-${pad(month)}-${pad(day)}`;
+      }
+    }],
+    ['lower', { check: signature('string', isString), call: ([value]) => value.toLowerCase() }],
+    ['upper', { check: signature('string', isString), call: ([value]) => value.toUpperCase() }],
+    ['trim', { check: signature('string', isString), call: ([value]) => value.trim() }],
+    ['length', { check: signature('integer', isString), call: ([value]) => value.length }],
+    ['substr', {
+      check: (types: Array<string>) => (types.length >= 3) ?
+        signature('string', isString, isNumeric, isNumeric)(types) :
+        signature('string', isString, isNumeric)(types),
+      call: ([value, start, length]) => value.substr(start, length)
+    }],
+    ['string', { check: signature('string', isAny), call: ([value]) => String(value) }],
+    ['number', {
+      check: signature('float', type => isNumeric(type) || isString(type) || isBoolean(type)),
+      call: ([value]) => {
+        let number = Number(value);
+        return isFinite(number) ? number : null;
+      }
+    }],
+    ['abs', math(Math.abs)],
+    ['floor', math(Math.floor, 'integer')],
+    ['ceil', math(Math.ceil, 'integer')],
+    ['sqrt', math(Math.sqrt, 'float')],
+    ['log', math(Math.log, 'float')],
+    ['exp', math(Math.exp, 'float')],
+    ['round', {
+      check: (types: Array<string>) => (types.length >= 2) ?
+        signature('float', isNumeric, isNumeric)(types) :
+        signature('integer', isNumeric)(types),
+      call: ([value, digits]) => {
+        let scale = Math.pow(10, digits || 0);
+        return Math.round(value * scale) / scale;
+      }
+    }],
+    ['min', {
+      check: (types: Array<string>) => signature(unify, isNumeric, isNumeric)(types),
+      call: ([a, b]) => Math.min(a, b)
+    }],
+    ['max', {
+      check: (types: Array<string>) => signature(unify, isNumeric, isNumeric)(types),
+      call: ([a, b]) => Math.max(a, b)
+    }],
+    ['concat', {
+      check: () => 'string',
+      call: args => args.map(String).join('')
+    }],
+    ['if', {
+      check: (types: Array<string>) => signature(([, a, b]) => unify([a, b]), isBoolean, isAny, isAny)(types),
+      call: ([test, a, b]) => test ? a : b,
+      nulls: true
+    }],
+    ['coalesce', {
+      check: (types: Array<string>) => {
+        if (types.length === 0) {
+          throw new Error('expects at least 1 argument');
+        }
+        return unify(types);
+      },
+      call: args => {
+        for (let value of args) {
+          if (value !== null) {
+            return value;
+          }
+        }
+        return null;
+      },
+      nulls: true
+    }],
+    ['isnull', { check: signature('boolean', isAny), call: ([value]) => value === null, nulls: true }]
+  ]);
+}
@@ -0,0 +1,188 @@
+import {
+  TableDataModel
+} from './tabledatamodel';
+
+import {
+  inferType, parseCSV
+} from './csvparser';
+
+
+/**
+ * The file extensions which can be loaded into a table data model.
+ */
+export
+const supportedExtensions = ['.csv', '.tsv', '.txt', '.json', '.ndjson', '.jsonl', '.arrow', '.feather', '.ipc'];
+
+
+/**
+ * Load a file into a new table data model.
+ *
+ * @param file - The CSV, TSV, JSON, NDJSON or Arrow file to load.
+ *
+ * @param options - The options for creating the data model.
+ *
+ * @returns A promise which resolves with the data model of the file.
+ *
+ * #### Notes
+ * The file format is picked from the file extension.
+ *
+ * A JSON file holds either a `{data, keys, types}` document, an array
+ * of row arrays or an array of row objects. An NDJSON file holds one row
+ * object or row array per line.
+ */
+export
+function loadFile(file: File, options: TableDataModel.IOptions = {}): Promise<TableDataModel> {
+  let extension = Private.extensionOf(file.name);
+
+  switch (extension) {
+  case '.arrow':
+  case '.feather':
+  case '.ipc':
+    return Private.readBuffer(file).then(buffer => TableDataModel.fromArrow(buffer, options));
+  case '.json':
+    return Private.readText(file).then(text => Private.createModel(Private.parseJSON(text), options));
+  case '.ndjson':
+  case '.jsonl':
+    return Private.readText(file).then(text => Private.createModel(Private.parseNDJSON(text), options));
+  case '.csv':
+  case '.tsv':
+  case '.txt':
+    return Private.readText(file).then(text => {
+      let delimiter = (extension === '.tsv') ? '\t' : undefined;
+      return Private.createModel(parseCSV(text, { delimiter }), options);
+    });
+  default:
+    return Promise.reject(new Error(`Unsupported file type: ${file.name}`));
+  }
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * Get the lower case extension of a file name.
+   */
+  export
+  function extensionOf(name: string): string {
+    let index = name.lastIndexOf('.');
+    return (index < 0) ? '' : name.slice(index).toLowerCase();
+  }
+
+  /**
+   * Read the contents of a file as text.
+   */
+  export
+  function readText(file: File): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let reader = new FileReader();
+      reader.onload = () => { resolve(reader.result as string); };
+      reader.onerror = () => { reject(reader.error); };
+      reader.readAsText(file);
+    });
+  }
+
+  /**
+   * Read the contents of a file as an array buffer.
+   */
+  export
+  function readBuffer(file: File): Promise<ArrayBuffer> {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      let reader = new FileReader();
+      reader.onload = () => { resolve(reader.result as ArrayBuffer); };
+      reader.onerror = () => { reject(reader.error); };
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
+  /**
+   * Create a data model holding parsed rows.
+   */
+  export
+  function createModel(result: parseCSV.IResult, options: TableDataModel.IOptions): TableDataModel {
+    let model = new TableDataModel(options);
+    model.setRawData(result.data, result.keys, result.types);
+    return model;
+  }
+
+  /**
+   * Parse the text of a JSON file.
+   */
+  export
+  function parseJSON(text: string): parseCSV.IResult {
+    let document = JSON.parse(text);
+
+    if (Array.isArray(document)) {
+      return fromRows(document);
+    }
+
+    if (document && document.data && document.keys && document.types) {
+      return { data: document.data, keys: document.keys, types: document.types };
+    }
+
+    throw new Error('Unsupported JSON document');
+  }
+
+  /**
+   * Parse the text of a newline delimited JSON file.
+   */
+  export
+  function parseNDJSON(text: string): parseCSV.IResult {
+    let rows = [];
+    for (let line of text.split('\n')) {
+      if (line.trim() !== '') {
+        rows.push(JSON.parse(line));
+      }
+    }
+    return fromRows(rows);
+  }
+
+  /**
+   * Convert a list of row arrays or row objects to row data.
+   */
+  function fromRows(rows: Array<any>): parseCSV.IResult {
+    let keys: Array<string> = [];
+    let data: Array<Array<any>>;
+
+    if (rows.length > 0 && Array.isArray(rows[0])) {
+      let width = 0;
+      for (let row of rows) {
+        width = Math.max(width, row.length);
+      }
+      for (let i = 0; i < width; i++) {
+        keys.push(`Column ${i + 1}`);
+      }
+      data = rows.map(row => keys.map((key, i) => normalize(row[i])));
+    } else {
+      // Collect the keys of all the row objects, in order of appearance.
+      let seen = new Set<string>();
+      for (let row of rows) {
+        for (let key of Object.keys(row)) {
+          if (!seen.has(key)) {
+            seen.add(key);
+            keys.push(key);
+          }
+        }
+      }
+      data = rows.map(row => keys.map(key => normalize(row[key])));
+    }
+
+    let types = keys.map((key, i) => inferType(data.map(row => row[i])));
+
+    return { data, keys, types };
+  }
+
+  /**
+   * Normalize a parsed JSON value to a cell value.
+   */
+  function normalize(value: any): any {
+    if (value === undefined) {
+      return null;
+    }
+    if (value !== null && typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,301 @@
+import TypedFastBitSet = require('typedfastbitset');
+
+import {
+  ColumnVector, allRows, selectMatches, selectNulls, selectNumbers
+} from './columnstore';
+
+import {
+  toTime
+} from './columnstats';
+
+
+/**
+ * A parsed quick filter of a column.
+ */
+export
+type FilterExpression = (
+  {
+    /**
+     * Match the rows with a missing value.
+     */
+    readonly kind: 'null';
+  } |
+  {
+    /**
+     * Match the rows not matched by the operand.
+     */
+    readonly kind: 'not';
+
+    /**
+     * The negated expression.
+     */
+    readonly operand: FilterExpression;
+  } |
+  {
+    /**
+     * Match the numeric or temporal values passing the test.
+     */
+    readonly kind: 'number';
+
+    /**
+     * The test of a value, given as a number or a timestamp.
+     */
+    readonly test: (value: number) => boolean;
+  } |
+  {
+    /**
+     * Match the values whose text passes the test.
+     */
+    readonly kind: 'text';
+
+    /**
+     * The test of the text of a value.
+     */
+    readonly test: (text: string) => boolean;
+  }
+);
+
+
+/**
+ * Parse the quick filter of a column.
+ *
+ * @param text - The filter text typed in the column header.
+ *
+ * @param type - The column type.
+ *
+ * @returns The parsed filter expression.
+ *
+ * @throws An error describing the problem if the text cannot be parsed.
+ *
+ * #### Notes
+ * The filter syntax is:
+ *
+ * - `>10`, `>=10`, `<10`, `<=10`, `=10` compare the values.
+ * - `5..10` matches the values in an inclusive range, either bound may
+ *   be left out.
+ * - `~foo` matches the values containing a text.
+ * - `/^ab/i` matches the values with a regular expression.
+ * - `!expr` matches the rows not matched by another filter.
+ * - `is:null` matches the missing values.
+ * - Any other text matches the numbers equal to it, or the values
+ *   starting with it for the other column types.
+ *
+ * Text matches ignore case, except for regular expressions.
+ */
+export
+function parseFilter(text: string, type: string): FilterExpression {
+  text = text.trim();
+
+  if (text === '') {
+    throw new Error('Empty filter');
+  }
+
+  if (text[0] === '!') {
+    return { kind: 'not', operand: parseFilter(text.slice(1), type) };
+  }
+
+  let match = Private.isPattern.exec(text);
+  if (match) {
+    let test = match[1].toLowerCase();
+    if (test === 'null' || test === 'missing') {
+      return { kind: 'null' };
+    }
+    throw new Error(`Unknown test "is:${match[1]}"`);
+  }
+
+  if (text[0] === '~') {
+    let term = text.slice(1).toLowerCase();
+    if (term === '') {
+      throw new Error('Missing text after "~"');
+    }
+    return { kind: 'text', test: value => value.toLowerCase().indexOf(term) >= 0 };
+  }
+
+  match = Private.regexPattern.exec(text);
+  if (match) {
+    let regex: RegExp;
+    try {
+      // A global or sticky regex keeps its last index between the rows.
+      regex = new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+    } catch (err) {
+      throw new Error(`Invalid regular expression: ${match[1]}`);
+    }
+    return { kind: 'text', test: value => regex.test(value) };
+  }
+
+  match = Private.comparePattern.exec(text);
+  if (match) {
+    return Private.compareExpression(match[1], match[2].trim(), type);
+  }
+
+  let index = text.indexOf('..');
+  if (index >= 0) {
+    return Private.rangeExpression(text.slice(0, index).trim(), text.slice(index + 2).trim(), type);
+  }
+
+  if (Private.isOrdered(type) && !Private.isTemporal(type)) {
+    return Private.compareExpression('=', text, type);
+  }
+
+  let prefix = text.toLowerCase();
+  return { kind: 'text', test: value => value.toLowerCase().startsWith(prefix) };
+}
+
+
+/**
+ * Select the rows of a column matched by a filter expression.
+ *
+ * @param expression - The filter expression to evaluate.
+ *
+ * @param values - The column values to filter.
+ *
+ * @param type - The column type.
+ *
+ * @param missing - The test of the text of a value counted as missing.
+ *   Such values match `is:null` and no other test. The default only
+ *   counts `null` values as missing.
+ *
+ * @returns A new bitset of the matching rows.
+ */
+export
+function selectFilter(expression: FilterExpression, values: ColumnVector, type: string,
+  missing?: (text: string) => boolean): TypedFastBitSet {
+  switch (expression.kind) {
+  case 'null':
+    let nulls = selectNulls(values);
+    if (missing !== undefined) {
+      nulls.union(selectMatches(values, missing));
+    }
+    return nulls;
+  case 'not':
+    let rows = allRows(values.length);
+    rows.difference(selectFilter(expression.operand, values, type, missing));
+    return rows;
+  case 'number':
+    return selectNumbers(values, type, expression.test, missing);
+  case 'text':
+    let matches = selectMatches(values, expression.test);
+    if (missing !== undefined) {
+      matches.difference(selectMatches(values, missing));
+    }
+    return matches;
+  default:
+    throw 'unreachable';
+  }
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The patterns of the filter syntax.
+   */
+  export
+  const isPattern = /^is:(\w*)$/i;
+
+  export
+  const regexPattern = /^\/(.*)\/([gimsuy]*)$/;
+
+  export
+  const comparePattern = /^(>=|<=|>|<|=)(.*)$/;
+
+  /**
+   * Test whether a column type is compared as numbers.
+   */
+  export
+  function isOrdered(type: string): boolean {
+    return type === 'integer' || type === 'float' || isTemporal(type);
+  }
+
+  /**
+   * Test whether a type is date or datetime.
+   */
+  export
+  function isTemporal(type: string): boolean {
+    return type === 'date' || type === 'datetime';
+  }
+
+  /**
+   * Parse the operand of a comparison to a number or a timestamp.
+   */
+  export
+  function parseOperand(text: string, type: string): number {
+    if (text === '') {
+      throw new Error('Missing value');
+    }
+
+    let value = isTemporal(type) ? toTime(text) : Number(text);
+    if (!isFinite(value)) {
+      throw new Error(`"${text}" is not a ${isTemporal(type) ? 'date' : 'number'}`);
+    }
+    return value;
+  }
+
+  /**
+   * Create the expression of a comparison.
+   */
+  export
+  function compareExpression(op: string, text: string, type: string): FilterExpression {
+    if (isOrdered(type)) {
+      let operand = parseOperand(text, type);
+      return { kind: 'number', test: compareTest(op, operand) };
+    }
+
+    if (text === '') {
+      throw new Error('Missing value');
+    }
+    let test = compareTest(op, text.toLowerCase());
+    return { kind: 'text', test: value => test(value.toLowerCase()) };
+  }
+
+  /**
+   * Create the expression of an inclusive range.
+   */
+  export
+  function rangeExpression(lo: string, hi: string, type: string): FilterExpression {
+    if (lo === '' && hi === '') {
+      throw new Error('Missing range bounds');
+    }
+    if (lo === '') {
+      return compareExpression('<=', hi, type);
+    }
+    if (hi === '') {
+      return compareExpression('>=', lo, type);
+    }
+
+    if (isOrdered(type)) {
+      let min = parseOperand(lo, type);
+      let max = parseOperand(hi, type);
+      return { kind: 'number', test: value => value >= min && value <= max };
+    }
+
+    let min = lo.toLowerCase();
+    let max = hi.toLowerCase();
+    return { kind: 'text', test: value => {
+      let text = value.toLowerCase();
+      return text >= min && text <= max;
+    }};
+  }
+
+  /**
+   * Create the test of a comparison with an operand.
+   */
+  function compareTest<T extends number | string>(op: string, operand: T): (value: T) => boolean {
+    switch (op) {
+    case '>':
+      return value => value > operand;
+    case '>=':
+      return value => value >= operand;
+    case '<':
+      return value => value < operand;
+    case '<=':
+      return value => value <= operand;
+    case '=':
+      return value => value === operand;
+    default:
+      throw 'unreachable';
+    }
+  }
+}
@@ -0,0 +1,404 @@
+import TypedFastBitSet = require('typedfastbitset');
+
+import {
+  ColumnVector
+} from './columnstore';
+
+import {
+  toTime
+} from './columnstats';
+
+import {
+  ColumnBin, ColumnStats, TableDataModel
+} from './tabledatamodel';
+
+
+/**
+ * A type alias for the operation of an aggregate.
+ */
+export
+type AggregateOp = 'count' | 'sum' | 'mean' | 'min' | 'max' | 'distinct';
+
+
+/**
+ * An aggregate of the rows of each group.
+ */
+export
+interface Aggregate {
+  /**
+   * The operation combining the values of the rows.
+   */
+  op: AggregateOp;
+
+  /**
+   * The aggregated column, or `-1` to count the rows.
+   */
+  column: number;
+}
+
+
+/**
+ * The result of grouping the rows of a table data model.
+ */
+export
+interface GroupByResult {
+  /**
+   * The data model with a row per group, holding the values of the group
+   * columns followed by the aggregates.
+   */
+  model: TableDataModel;
+
+  /**
+   * The grouped columns of the source model.
+   */
+  columns: Array<number>;
+
+  /**
+   * The source column bins of each row of the grouped model, with `null`
+   * for the missing values.
+   */
+  groups: Array<Array<ColumnBin | null>>;
+}
+
+
+/**
+ * Group the filtered rows of a table data model.
+ *
+ * @param source - The data model to group.
+ *
+ * @param columns - The columns to group the rows by.
+ *
+ * @param aggregates - The aggregates of each group.
+ *
+ * @param options - The options for creating the grouped data model.
+ *
+ * @returns The grouped data model and the source bins of its rows.
+ *
+ * @throws An error if no column is given, or the statistics of a column
+ *   are still being computed.
+ *
+ * #### Notes
+ * The groups are the intersections of the histogram bins of the columns,
+ * so categorical columns group by value and numeric or temporal columns
+ * by bin. Missing values form a group of their own, and empty groups are
+ * left out.
+ */
+export
+function groupBy(source: TableDataModel, columns: Array<number>, aggregates: Array<Aggregate>, options: TableDataModel.IOptions = {}): GroupByResult {
+  if (columns.length === 0) {
+    throw new Error('Pick a column to group by');
+  }
+
+  let names = source.columnNames;
+  let types = source.columnTypes;
+
+  // Split the rows by the bins of each column in turn.
+  let filtered = source.filteredRows;
+  let groups: Array<Private.IGroup> = [{ bins: [], rows: filtered }];
+  for (let column of columns) {
+    let stats = source.columnStats(column);
+    if (stats.isComputing) {
+      throw new Error(`The statistics of "${names[column]}" are still being computed`);
+    }
+
+    let next: Array<Private.IGroup> = [];
+    for (let group of groups) {
+      for (let bin of [...stats.bins, stats.nullBin]) {
+        let rows = (group.rows === null) ? bin.bitset.clone() : group.rows.new_intersection(bin.bitset);
+        if (rows.size() > 0) {
+          next.push({ bins: [...group.bins, bin], rows });
+        }
+      }
+    }
+    groups = next;
+  }
+
+  let keys = columns.map(column => names[column]);
+  let resultTypes = columns.map(column => Private.isCategorical(types[column]) ? types[column] : 'string');
+  for (let aggregate of aggregates) {
+    keys.push(Private.aggregateName(aggregate, names));
+    resultTypes.push(Private.aggregateType(aggregate, types));
+  }
+
+  let data = groups.map(group => {
+    let rows = group.rows!.array();
+    let values = group.bins.map((bin, i) => {
+      return (bin === source.columnStats(columns[i]).nullBin) ? null : bin.label;
+    });
+    for (let aggregate of aggregates) {
+      let column = aggregate.column;
+      values.push((column < 0) ? rows.length :
+        Private.aggregate(aggregate.op, source.columnValues(column), types[column], rows, source.missingTest(column)));
+    }
+    return values;
+  });
+
+  let model = new TableDataModel(options);
+  model.setRawData(data, keys, resultTypes);
+  let bins = groups.map(group => group.bins.map((bin, i) => {
+    return (bin === source.columnStats(columns[i]).nullBin) ? null : bin;
+  }));
+  return { model, columns, groups: bins };
+}
+
+
+/**
+ * Filter the source model of a group by to the rows of a group.
+ *
+ * @param source - The data model which was grouped.
+ *
+ * @param result - The result of grouping the source model.
+ *
+ * @param row - The index of the group in the grouped data.
+ *
+ * #### Notes
+ * The filter of each grouped column is replaced by the bin of the group.
+ * The statistics of the source may have been computed again since the
+ * grouping, so the current bin with the range or label of the group is
+ * used, and a group without one matches no row.
+ */
+export
+function applyGroup(source: TableDataModel, result: GroupByResult, row: number): void {
+  let bins = result.groups[row];
+  result.columns.forEach((column, i) => {
+    let bin = Private.currentBin(source.columnStats(column), bins[i]);
+    source.filterBin(column, (bin === undefined) ? new TypedFastBitSet() : bin.bitset, true);
+  });
+}
+
+
+/**
+ * Parse a list of column names.
+ *
+ * @param text - The comma separated column names. Names are matched
+ *   ignoring case, and may be quoted with backticks.
+ *
+ * @param names - The column names of the table.
+ *
+ * @returns The indices of the columns.
+ *
+ * @throws An error naming an unknown column.
+ */
+export
+function parseColumns(text: string, names: ReadonlyArray<string>): Array<number> {
+  return Private.splitList(text).map(name => Private.findColumn(name, names));
+}
+
+
+/**
+ * Parse a list of aggregates.
+ *
+ * @param text - The comma separated aggregates, such as
+ *   `count, sum(price), mean(qty), distinct(country)`.
+ *
+ * @param names - The column names of the table.
+ *
+ * @param types - The column types of the table.
+ *
+ * @returns The aggregates, or a count of the rows for an empty text.
+ *
+ * @throws An error describing an invalid aggregate.
+ */
+export
+function parseAggregates(text: string, names: ReadonlyArray<string>, types: ReadonlyArray<string>): Array<Aggregate> {
+  let items = Private.splitList(text);
+  if (items.length === 0) {
+    return [{ op: 'count', column: -1 }];
+  }
+
+  return items.map(item => {
+    let match = Private.aggregatePattern.exec(item);
+    if (match === null) {
+      throw new Error(`Invalid aggregate "${item}"`);
+    }
+
+    let op = match[1].toLowerCase() as AggregateOp;
+    if (Private.aggregateOps.indexOf(op) < 0) {
+      throw new Error(`Unknown aggregate "${match[1]}"`);
+    }
+
+    if (match[2] === undefined || match[2].trim() === '') {
+      if (op !== 'count') {
+        throw new Error(`${op}() expects a column`);
+      }
+      return { op, column: -1 };
+    }
+
+    let column = Private.findColumn(match[2].trim(), names);
+    let type = types[column];
+    if ((op === 'sum' || op === 'mean') && !Private.isNumeric(type)) {
+      throw new Error(`${op}() expects a numeric column, not "${names[column]}"`);
+    }
+    if ((op === 'min' || op === 'max') && Private.isCategorical(type)) {
+      throw new Error(`${op}() expects a numeric or temporal column, not "${names[column]}"`);
+    }
+    return { op, column };
+  });
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * Find the current bin of a column matching a bin of a group.
+   *
+   * Numeric and temporal bins are matched by range, the others by label,
+   * and a `null` bin is the bin of the missing values.
+   */
+  export
+  function currentBin(stats: ColumnStats, bin: ColumnBin | null): ColumnBin | undefined {
+    if (bin === null) {
+      return stats.nullBin;
+    }
+    if (bin.min !== undefined) {
+      return stats.bins.find(other => other.min === bin.min && other.max === bin.max);
+    }
+    return stats.bins.find(other => other.min === undefined && other.label === bin.label);
+  }
+
+  /**
+   * A group of rows while grouping.
+   */
+  export
+  interface IGroup {
+    /**
+     * The bins of the grouped columns so far.
+     */
+    bins: Array<ColumnBin>;
+
+    /**
+     * The rows of the group, or `null` for all the rows.
+     */
+    rows: TypedFastBitSet | null;
+  }
+
+  /**
+   * The supported aggregate operations.
+   */
+  export
+  const aggregateOps: Array<AggregateOp> = ['count', 'sum', 'mean', 'min', 'max', 'distinct'];
+
+  /**
+   * The pattern of an aggregate, with an optional column argument.
+   */
+  export
+  const aggregatePattern = /^(\w+)\s*(?:\((.*)\))?$/;
+
+  export
+  function isNumeric(type: string): boolean {
+    return type === 'integer' || type === 'float';
+  }
+
+  export
+  function isCategorical(type: string): boolean {
+    return type === 'string' || type === 'boolean';
+  }
+
+  /**
+   * Split a comma separated list, dropping empty items.
+   */
+  export
+  function splitList(text: string): Array<string> {
+    return text.split(',').map(item => item.trim()).filter(item => item !== '');
+  }
+
+  /**
+   * Find a column by name, ignoring case and quotes.
+   */
+  export
+  function findColumn(name: string, names: ReadonlyArray<string>): number {
+    let unquoted = name.replace(/^`(.*)`$/, '$1');
+    let column = names.indexOf(unquoted);
+    if (column < 0) {
+      let lower = unquoted.toLowerCase();
+      column = names.findIndex(key => key.toLowerCase() === lower);
+    }
+    if (column < 0) {
+      throw new Error(`Unknown column "${unquoted}"`);
+    }
+    return column;
+  }
+
+  /**
+   * Get the column name of an aggregate.
+   */
+  export
+  function aggregateName(aggregate: Aggregate, names: ReadonlyArray<string>): string {
+    return (aggregate.column < 0) ? aggregate.op : `${aggregate.op}(${names[aggregate.column]})`;
+  }
+
+  /**
+   * Get the column type of an aggregate.
+   */
+  export
+  function aggregateType(aggregate: Aggregate, types: ReadonlyArray<string>): string {
+    switch (aggregate.op) {
+    case 'count':
+    case 'distinct':
+      return 'integer';
+    case 'mean':
+      return 'float';
+    default:
+      return types[aggregate.column];
+    }
+  }
+
+  /**
+   * Aggregate the values of some rows of a column, skipping the values
+   * which are missing.
+   */
+  export
+  function aggregate(op: AggregateOp, values: ColumnVector, type: string, rows: Array<number>,
+    missing: (text: string) => boolean): any {
+    let isMissing = (value: any) => value === null || missing(String(value));
+
+    if (op === 'distinct') {
+      let distinct = new Set<any>();
+      for (let row of rows) {
+        let value = values.get(row);
+        if (!isMissing(value)) {
+          distinct.add((value instanceof Date) ? value.getTime() : value);
+        }
+      }
+      return distinct.size;
+    }
+
+    let count = 0;
+    let sum = 0;
+    let best: any = null;
+    let bestKey = 0;
+    let toKey = isNumeric(type) ? Number : toTime;
+
+    for (let row of rows) {
+      let value = values.get(row);
+      if (isMissing(value)) {
+        continue;
+      }
+      count++;
+
+      if (op === 'sum' || op === 'mean') {
+        sum += value;
+        continue;
+      }
+
+      let key = toKey(value);
+      if (best === null || (op === 'min' ? key < bestKey : key > bestKey)) {
+        best = value;
+        bestKey = key;
+      }
+    }
+
+    switch (op) {
+    case 'count':
+      return count;
+    case 'sum':
+      return (count === 0) ? null : sum;
+    case 'mean':
+      return (count === 0) ? null : sum / count;
+    default:
+      return best;
+    }
+  }
+}
@@ -8,7 +8,15 @@
 
 
 import {
-  DockPanel, StackedPanel, Widget
+  CommandRegistry
+} from '@lumino/commands';
+
+import {
+  Platform
+} from '@lumino/domutils';
+
+import {
+  DockPanel, Menu, StackedPanel, Widget
 } from '@lumino/widgets';
 
 import {
@@ -16,17 +24,45 @@ import {
 } from './cellrenderer';
 
 import {
-  TableDataModel
+  BrowsableDataModel, TableDataModel
 } from './tabledatamodel'
 
 import {
-  DataGrid, BasicSelectionModel, BasicKeyHandler, CellRenderer, RendererMap
+  RemoteTableDataModel
+} from './remotedatamodel';
+
+import {
+  DataGrid, BasicSelectionModel, BasicKeyHandler, CellRenderer, RendererMap, SelectionModel
 } from '@lumino/datagrid';
 
 import {
   MouseHandler as BasicMouseHandler
 } from './mousehandler';
 
+import {
+  KeyHandler
+} from './keyhandler';
+
+import {
+  loadFile, supportedExtensions
+} from './fileloader';
+
+import {
+  ColumnChooser
+} from './columnchooser';
+
+import {
+  Crosstab
+} from './crosstab';
+
+import {
+  applyGroup, groupBy, parseAggregates, parseColumns
+} from './groupby';
+
+import {
+  LiveFeed
+} from './livefeed';
+
 import '../style/index.css';
 
 
@@ -64,7 +100,10 @@ function createWrapper(content: Widget, title: string): Widget {
 
 function formatMultiTooltip(config: CellRenderer.CellConfig) : string {
   let { region, value } = config;
-  if (region !== 'body' || value === null || value === undefined) {
+  if ((region === 'column-header' || region === 'corner-header') && value) {
+    return formatProfileTooltip(value);
+  }
+  if (value === null || value === undefined) {
       return '';
   }
   let tooltip = [];
@@ -76,16 +115,116 @@ function formatMultiTooltip(config: CellRenderer.CellConfig) : string {
 }
 
 
-function main(): void {
+/**
+ * Format the profile card of a column header, with a value column per
+ * profile.
+ */
+function formatProfileTooltip(fields: Array<Array<string>>): string {
+  let columns = fields[0].length;
+  let cells = [];
+  for (let [label, ...values] of fields) {
+    cells.push(`<span>${label}</span>`);
+    for (let value of values) {
+      cells.push(`<span class="data">${value}</span>`);
+    }
+  }
+  return `<div class="p-DataGrid-profile" style="grid-template-columns: repeat(${columns}, auto)">${cells.join('')}</div>`;
+}
+
 
-  let model = new TableDataModel();
+/**
+ * The URL of the script of the column statistics worker.
+ */
+const statsWorker = 'lib/databrowser.worker.js';
+
+
+/**
+ * Parse a comma separated list of the texts of missing values, where
+ * `""` stands for the empty text.
+ */
+function parseMissingValues(text: string): Array<string> {
+  let values = text.split(',').map(value => value.trim()).filter(value => value !== '');
+  return values.map(value => /^".*"$/.test(value) ? value.slice(1, -1) : value);
+}
 
-  fetch('data.json').then( res => {
-    res.json().then( result => {
-      model.setRawData(result.data, result.keys, result.types);
-    })
+
+/**
+ * Format the texts of missing values as a comma separated list.
+ */
+function formatMissingValues(values: ReadonlyArray<string>): string {
+  return values.map(value => (value === '') ? '""' : value).join(', ');
+}
+
+
+/**
+ * Open the menu of a column header, which sets the values counted as
+ * missing in the column or in the table.
+ *
+ * @param model - The table data model of the grid.
+ *
+ * @param column - The data column of the header.
+ *
+ * @param bin - The histogram bin under the mouse, `'null'` for the bin of
+ *   the missing values, or `-1` for none.
+ *
+ * @param clientX - The client X position of the mouse.
+ *
+ * @param clientY - The client Y position of the mouse.
+ */
+function openHeaderMenu(model: TableDataModel, column: number, bin: number | 'null', clientX: number, clientY: number): void {
+  let name = model.columnNames[column];
+  let stats = model.columnStats(column);
+  let own = model.columnMissingValues(column);
+  let current = own || model.missingValues;
+  let hint = 'separated by commas, with "" for empty text';
+
+  let commands = new CommandRegistry();
+  let menu = new Menu({ commands });
+
+  // A bin of a single value can be counted as missing.
+  let isOther = stats.otherCount !== undefined && bin === stats.bins.length - 1;
+  if (typeof bin === 'number' && bin >= 0 && stats.bins[bin].min === undefined && !isOther) {
+    let text = String(stats.bins[bin].label);
+    commands.addCommand('count-missing', {
+      label: `Count "${text}" as missing`,
+      execute: () => { model.setColumnMissingValues(column, [...current, text]); }
+    });
+    menu.addItem({ command: 'count-missing' });
+    menu.addItem({ type: 'separator' });
+  }
+
+  commands.addCommand('column-missing', {
+    label: `Missing values of ${name}\u2026`,
+    execute: () => {
+      let text = window.prompt(`Values counted as missing in ${name}, ${hint}`, formatMissingValues(current));
+      if (text !== null) {
+        model.setColumnMissingValues(column, parseMissingValues(text));
+      }
+    }
+  });
+  commands.addCommand('follow-table', {
+    label: 'Use the missing values of the table',
+    isToggled: () => own === null,
+    execute: () => { model.setColumnMissingValues(column, null); }
+  });
+  commands.addCommand('table-missing', {
+    label: 'Missing values of the table\u2026',
+    execute: () => {
+      let text = window.prompt(`Values counted as missing in the table, ${hint}`, formatMissingValues(model.missingValues));
+      if (text !== null) {
+        model.setMissingValues(parseMissingValues(text));
+      }
+    }
   });
+  menu.addItem({ command: 'column-missing' });
+  menu.addItem({ command: 'follow-table' });
+  menu.addItem({ command: 'table-missing' });
+
+  menu.open(clientX, clientY);
+}
+
 
+function createGrid(model: BrowsableDataModel): DataGrid {
   const defaultSizes: DataGrid.DefaultSizes = {
     rowHeight: 20,
     columnWidth: 200,
@@ -97,6 +236,10 @@ function main(): void {
   const headerColor = '#F5F7F7';
   const headerTextColor = '#737373';
   const bodyTextColor = '#2B2B2B';
+  const placeholderTextColor = '#B0B0B0';
+  const matchColor = '#FFF3B0';
+  const editedColor = '#E3F2E1';
+  const errorColor = '#FBE3E3';
 
   const font = '400 12px Roboto, "Helvetica Neue", sans-serif';
   const headerFont = '600 12px Roboto, "Helvetica Neue", sans-serif';
@@ -113,9 +256,19 @@ function main(): void {
     headerVerticalGridLineColor: lineColor,
   };
 
+  // Highlight the body cells matching the search term, the edited cells,
+  // and the cells whose remote request failed.
+  const bodyBackgroundColor = ({ metadata }: CellRenderer.CellConfig) => {
+    if (metadata.error) {
+      return errorColor;
+    }
+    return metadata.match ? matchColor : metadata.edited ? editedColor : '';
+  };
+
   const defaultRenderer = new TextRenderer({
     font: font,
     textColor: bodyTextColor,
+    backgroundColor: bodyBackgroundColor,
     horizontalAlignment: 'left'
   });
 
@@ -125,6 +278,7 @@ function main(): void {
     format: TextRenderer.formatIntlNumber({ missing: '-',
       options: {minimumFractionDigits: 2, maximumFractionDigits: 2 } }),
     textColor: bodyTextColor,
+    backgroundColor: bodyBackgroundColor,
     horizontalAlignment: 'right'
   });
 
@@ -132,6 +286,7 @@ function main(): void {
     font: font,
     format: TextRenderer.formatIntlNumber({ missing: '-' }),
     textColor: bodyTextColor,
+    backgroundColor: bodyBackgroundColor,
     horizontalAlignment: 'right'
   });
 
@@ -139,6 +294,7 @@ function main(): void {
     font: font,
     textColor: bodyTextColor,
     format: TextRenderer.formatDate({ missing: '-' }),
+    backgroundColor: bodyBackgroundColor,
     horizontalAlignment: 'right'
   });
 
@@ -146,27 +302,32 @@ function main(): void {
     font: font,
     textColor: bodyTextColor,
     format: TextRenderer.formatTime({ missing: '-' }),
+    backgroundColor: bodyBackgroundColor,
     horizontalAlignment: 'right'
   });
 
-  let rendererMap = new RendererMap({
-    body: ({ metadata }) => {
-      let { type } = metadata;
-
-      switch (type) {
-        case 'integer':
-          return integerRenderer;
-        case 'float':
-          return floatRenderer;
-        case 'date':
-          return dateRenderer;
-        case 'datetime':
-          return datetimeRenderer
-        case 'boolean':
-        default:
-          return defaultRenderer;
-      }
+  const bodyRenderer = ({ metadata }: CellRenderer.CellConfig) => {
+    let { type } = metadata;
+
+    switch (type) {
+      case 'integer':
+        return integerRenderer;
+      case 'float':
+        return floatRenderer;
+      case 'date':
+        return dateRenderer;
+      case 'datetime':
+        return datetimeRenderer
+      case 'boolean':
+      default:
+        return defaultRenderer;
     }
+  };
+
+  // The pinned columns follow the row numbers in the row header.
+  let rendererMap = new RendererMap({
+    body: bodyRenderer,
+    'row-header': (config) => (config.column === 0) ? defaultRenderer : bodyRenderer(config)
   }, defaultRenderer);
 
   const options: DataGrid.IOptions = {
@@ -209,6 +370,17 @@ function main(): void {
     }
   });
 
+  let searchIcon = new Image();
+  searchIcon.src = 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIxNCIgaGVpZ2h0PSIxNCIgdmlld0JveD0iMCAwIDI0IDI0Ij48cGF0aCBkPSJNMTUuNSAxNGgtLjc5bC0uMjgtLjI3QTYuNDcxIDYuNDcxIDAgMCAwIDE2IDkuNSA2LjUgNi41IDAgMSAwIDkuNSAxNmMxLjYxIDAgMy4wOS0uNTkgNC4yMy0xLjU3bC4yNy4yOHYuNzlsNSA0Ljk5TDIwLjQ5IDE5bC00Ljk5LTV6bS02IDBDNy4wMSAxNCA1IDExLjk5IDUgOS41UzcuMDEgNSA5LjUgNSAxNCA3LjAxIDE0IDkuNSAxMS45OSAxNCA5LjUgMTR6IiBmaWxsPSIjNjI2MjYyIi8+PC9zdmc+';
+
+  let searchRenderer = new TextRenderer({
+    font: font,
+    textColor: ({ value }) => (value === null) ? placeholderTextColor : headerTextColor,
+    verticalAlignment: 'center',
+    format: ({ value }) => (value === null) ? 'Search\u2026' : String(value),
+    icon: searchIcon
+  });
+
   let headerRenderer = new HeaderRenderer({
     font: font,
     headerFont: headerFont,
@@ -216,8 +388,7 @@ function main(): void {
     horizontalAlignment: 'center',
     verticalAlignment: 'center',
     icon: ({ row, value, metadata }) => {
-      let {type, sort} = metadata;
-      sort;
+      let {type} = metadata;
       switch (type) {
         case 'integer':
         case 'float':
@@ -230,13 +401,6 @@ function main(): void {
         default:
           return textImg;
       }
-
-      /*switch (sort) {
-        case SortOrders.ASC:
-          return sortAscImg;
-        case SortOrders.DESC:
-          return sortDescImg;
-      }*/
     }
   }
   );
@@ -247,6 +411,15 @@ function main(): void {
         return headerRenderer;
       }
       return filterRenderer;
+     },
+     'corner-header': ({ row, column }) => {
+      if (column > 0) {
+        return (row === 0) ? headerRenderer : filterRenderer;
+      }
+      if (row === 1) {
+        return searchRenderer;
+      }
+      return defaultRenderer;
      }
   });
 
@@ -255,9 +428,19 @@ function main(): void {
   grid.dataModel = model;
   BasicKeyHandler;
   //grid.keyHandler = new BasicKeyHandler();
+  grid.keyHandler = new KeyHandler({ dataModel: model });
+  let headerMenu: BasicMouseHandler.HeaderMenuFunc | undefined;
+  if (model instanceof TableDataModel) {
+    let tableModel = model;
+    headerMenu = (column, bin, clientX, clientY) => {
+      openHeaderMenu(tableModel, column, bin, clientX, clientY);
+    };
+  }
+
   grid.mouseHandler = new BasicMouseHandler({
     tooltipFormatter: formatMultiTooltip,
     headerRenderer: headerRenderer,
+    headerMenu: headerMenu,
     dataModel: model,
     dataGrid: grid
   });
@@ -266,13 +449,438 @@ function main(): void {
     selectionMode: 'row'
   });
 
+  return grid;
+}
+
+
+/**
+ * Load a file and open it in a new tab of the dock panel.
+ */
+function openFile(dock: DockPanel, file: File): void {
+  loadFile(file, { statsWorker }).then(model => {
+    let wrapper = createWrapper(createGrid(model), file.name);
+    dock.addWidget(wrapper);
+    dock.activateWidget(wrapper);
+    showStatus('');
+  }).catch(err => {
+    showStatus(`Could not open ${file.name}: ${err.message}`);
+  });
+}
+
+
+/**
+ * Show a message in the status of the toolbar, or clear it with an
+ * empty message.
+ */
+function showStatus(message: string): void {
+  let status = document.getElementById('toolbar-status');
+  if (status !== null) {
+    status.textContent = message;
+  }
+}
+
+
+/**
+ * Get the grid in the current tab of the dock panel.
+ */
+function currentGrid(dock: DockPanel): DataGrid | null {
+  let wrapper = dock.selectedWidgets().next();
+  let content = (wrapper instanceof StackedPanel) ? wrapper.widgets[0] : null;
+  return (content instanceof DataGrid) ? content : null;
+}
+
+
+/**
+ * Get the data model of the grid in the current tab of the dock panel.
+ */
+function currentModel(dock: DockPanel): TableDataModel | null {
+  let grid = currentGrid(dock);
+  if (grid !== null && grid.dataModel instanceof TableDataModel) {
+    return grid.dataModel;
+  }
+  return null;
+}
+
+
+/**
+ * Keep or exclude the selected rows of the table in the current tab.
+ *
+ * @param dock - The dock panel holding the tables.
+ *
+ * @param exclude - Whether to exclude the selected rows, rather than
+ *   keep them.
+ */
+function filterSelection(dock: DockPanel, exclude: boolean): void {
+  let grid = currentGrid(dock);
+  let model = currentModel(dock);
+  if (grid === null || model === null || grid.selectionModel === null) {
+    return;
+  }
+
+  let rows = new Set<number>();
+  let count = model.rowCount('body');
+  let selections = grid.selectionModel.selections();
+  let selection: SelectionModel.Selection | undefined;
+  while ((selection = selections.next()) !== undefined) {
+    let { r1, r2 } = selection;
+    for (let row = Math.max(Math.min(r1, r2), 0); row <= Math.min(Math.max(r1, r2), count - 1); row++) {
+      rows.add(row);
+    }
+  }
+  if (rows.size === 0) {
+    return;
+  }
+
+  // The selected body rows move once the filter applies.
+  grid.selectionModel.clear();
+  if (exclude) {
+    model.excludeRows(Array.from(rows));
+  } else {
+    model.keepRows(Array.from(rows));
+  }
+}
+
+
+/**
+ * Create a toolbar form acting on the current table.
+ *
+ * @param dock - The dock panel holding the tables.
+ *
+ * @param placeholders - The placeholders of the text inputs of the form.
+ *
+ * @param submit - The label of the submit button.
+ *
+ * @param action - The action taking the current model and the input
+ *   values. An error it throws is shown next to the form.
+ */
+function createToolbarForm(dock: DockPanel, placeholders: Array<string>, submit: string,
+  action: (model: TableDataModel, values: Array<string>) => void): HTMLFormElement {
+  let inputs = placeholders.map((placeholder, i) => {
+    let input = document.createElement('input');
+    input.placeholder = placeholder;
+    if (i > 0) {
+      input.className = 'toolbar-wide';
+    }
+    return input;
+  });
+
+  let ok = document.createElement('button');
+  ok.type = 'submit';
+  ok.textContent = submit;
+
+  let cancel = document.createElement('button');
+  cancel.type = 'button';
+  cancel.textContent = 'Cancel';
+
+  let error = document.createElement('span');
+  error.className = 'toolbar-error';
+
+  let form = document.createElement('form');
+  form.style.display = 'none';
+  form.append(...inputs, ok, cancel, error);
+
+  let close = () => {
+    form.reset();
+    error.textContent = '';
+    form.style.display = 'none';
+  };
+
+  form.addEventListener('submit', (event: Event) => {
+    event.preventDefault();
+    let model = currentModel(dock);
+    if (model === null) {
+      error.textContent = 'Open a table first';
+      return;
+    }
+    try {
+      action(model, inputs.map(input => input.value));
+      close();
+    } catch (err) {
+      error.textContent = err.message;
+    }
+  });
+  cancel.addEventListener('click', close);
+
+  return form;
+}
+
+
+/**
+ * Create a toolbar button showing a toolbar form.
+ */
+function createFormButton(label: string, title: string, form: HTMLFormElement): HTMLButtonElement {
+  let button = document.createElement('button');
+  button.textContent = label;
+  button.title = title;
+  button.addEventListener('click', () => {
+    form.style.display = 'inline';
+    (form.elements[0] as HTMLInputElement).focus();
+  });
+  return button;
+}
+
+
+/**
+ * Group the rows of a table and open the groups in a new tab.
+ *
+ * Selecting a group row filters the source table to the group.
+ */
+function openGroupBy(dock: DockPanel, source: TableDataModel, columnsText: string, aggregatesText: string): void {
+  let names = source.columnNames;
+  let columns = parseColumns(columnsText, names);
+  let aggregates = parseAggregates(aggregatesText, names, source.columnTypes);
+  let result = groupBy(source, columns, aggregates, { statsWorker });
+
+  let grid = createGrid(result.model);
+  grid.selectionModel!.changed.connect(() => {
+    let row = grid.selectionModel!.cursorRow;
+    if (row >= 0 && row < result.model.rowCount('body')) {
+      applyGroup(source, result, result.model.dataRow(row));
+    }
+  });
+
+  let title = `Group by ${columns.map(column => names[column]).join(', ')}`;
+  let wrapper = createWrapper(grid, title);
+  dock.addWidget(wrapper);
+  dock.activateWidget(wrapper);
+}
+
+
+/**
+ * Cross two columns of a table and open the crosstab in a new tab.
+ *
+ * Clicking a crosstab cell filters the source table to the cell.
+ */
+function openCrosstab(dock: DockPanel, source: TableDataModel, rowText: string, columnText: string): void {
+  let names = source.columnNames;
+  let [rowColumn, columnColumn] = [rowText, columnText].map(text => {
+    let columns = parseColumns(text, names);
+    if (columns.length !== 1) {
+      throw new Error('Pick one column for the rows and one for the columns');
+    }
+    return columns[0];
+  });
+
+  let crosstab = new Crosstab({ model: source, rowColumn, columnColumn });
+  let wrapper = createWrapper(crosstab, `${names[rowColumn]} \u00d7 ${names[columnColumn]}`);
+  dock.addWidget(wrapper);
+  dock.activateWidget(wrapper);
+}
+
+
+/**
+ * Scroll to and select a row of the table in the current tab.
+ *
+ * @param dock - The dock panel holding the tables.
+ *
+ * @param model - The data model of the current tab.
+ *
+ * @param id - The identifier of the row shown in the row header.
+ */
+function goToRow(dock: DockPanel, model: TableDataModel, id: string): void {
+  let grid = currentGrid(dock)!;
+  let dataRow = model.findRow(id);
+  if (dataRow < 0) {
+    throw new Error(`No row "${id.trim()}"`);
+  }
+  let row = model.viewRow(dataRow);
+  if (row < 0) {
+    throw new Error(`Row "${id.trim()}" is filtered out`);
+  }
+
+  grid.scrollToRow(row);
+  if (grid.selectionModel !== null) {
+    grid.selectionModel.select({
+      r1: row, c1: 0, r2: row, c2: Infinity,
+      cursorRow: row, cursorColumn: 0, clear: 'all'
+    });
+  }
+}
+
+
+/**
+ * Open the column chooser of the table in the current tab, next to it.
+ */
+function openColumnChooser(dock: DockPanel): void {
+  let grid = currentGrid(dock);
+  let model = currentModel(dock);
+  if (grid === null || model === null) {
+    return;
+  }
+
+  let chooser = new ColumnChooser({ model, grid });
+  let wrapper = createWrapper(chooser, `Columns of ${grid.parent!.title.label}`);
+  dock.addWidget(wrapper, { mode: 'split-right', ref: grid.parent });
+  dock.activateWidget(wrapper);
+}
+
+
+/**
+ * Create the toolbar with the button opening the file picker.
+ */
+function createToolbar(dock: DockPanel): Widget {
+  let input = document.createElement('input');
+  input.type = 'file';
+  input.multiple = true;
+  input.accept = supportedExtensions.join(',');
+  input.style.display = 'none';
+  input.addEventListener('change', () => {
+    for (let file of Array.from(input.files || [])) {
+      openFile(dock, file);
+    }
+    input.value = '';
+  });
+
+  let button = document.createElement('button');
+  button.textContent = 'Open\u2026';
+  button.title = 'Open a CSV, JSON, NDJSON or Arrow file';
+  button.addEventListener('click', () => { input.click(); });
+
+  let computedForm = createToolbarForm(dock, ['Column name', 'Expression, e.g. price * qty'], 'Add',
+    (model, [name, expression]) => { model.addComputedColumn(name, expression); });
+  let computedButton = createFormButton('Add column\u2026',
+    'Add a column computed from an expression', computedForm);
+
+  let groupForm = createToolbarForm(dock, ['Group by, e.g. country', 'Aggregates, e.g. count, sum(price)'], 'Group',
+    (model, [columns, aggregates]) => { openGroupBy(dock, model, columns, aggregates); });
+  let groupButton = createFormButton('Group by\u2026',
+    'Aggregate the filtered rows by the values of columns', groupForm);
+
+  let crosstabForm = createToolbarForm(dock, ['Rows, e.g. country', 'Columns, e.g. segment'], 'Cross',
+    (model, [rows, columns]) => { openCrosstab(dock, model, rows, columns); });
+  let crosstabButton = createFormButton('Crosstab\u2026',
+    'Count the rows of each pair of values of two columns', crosstabForm);
+
+  let goForm = createToolbarForm(dock, ['Row id'], 'Go',
+    (model, [id]) => { goToRow(dock, model, id); });
+  let goButton = createFormButton('Go to row\u2026',
+    'Scroll to and select a row by the id in its row header', goForm);
+
+  let columnsButton = document.createElement('button');
+  columnsButton.textContent = 'Columns\u2026';
+  columnsButton.title = 'Show, hide and pin the columns of the table';
+  columnsButton.addEventListener('click', () => { openColumnChooser(dock); });
+
+  let keepButton = document.createElement('button');
+  keepButton.textContent = 'Keep selected';
+  keepButton.title = 'Filter the table to the selected rows';
+  keepButton.addEventListener('click', () => { filterSelection(dock, false); });
+
+  let excludeButton = document.createElement('button');
+  excludeButton.textContent = 'Exclude selected';
+  excludeButton.title = 'Filter the selected rows out of the table';
+  excludeButton.addEventListener('click', () => { filterSelection(dock, true); });
+
+  let status = document.createElement('span');
+  status.id = 'toolbar-status';
+  status.className = 'toolbar-error';
+
+  let toolbar = new Widget();
+  toolbar.id = 'toolbar';
+  toolbar.node.appendChild(button);
+  toolbar.node.appendChild(input);
+  toolbar.node.appendChild(computedButton);
+  toolbar.node.appendChild(computedForm);
+  toolbar.node.appendChild(groupButton);
+  toolbar.node.appendChild(groupForm);
+  toolbar.node.appendChild(crosstabButton);
+  toolbar.node.appendChild(crosstabForm);
+  toolbar.node.appendChild(goButton);
+  toolbar.node.appendChild(goForm);
+  toolbar.node.appendChild(columnsButton);
+  toolbar.node.appendChild(keepButton);
+  toolbar.node.appendChild(excludeButton);
+  toolbar.node.appendChild(status);
+
+  document.addEventListener('keydown', (event: KeyboardEvent) => {
+    if (Platform.accelKey(event) && event.key === 'o') {
+      event.preventDefault();
+      input.click();
+    } else if (Platform.accelKey(event) && event.key === 'g') {
+      event.preventDefault();
+      goButton.click();
+    }
+  });
+
+  return toolbar;
+}
+
+
+/**
+ * Open the files dropped onto the dock panel.
+ */
+function installDropTarget(dock: DockPanel): void {
+  let hasFiles = (event: DragEvent) => {
+    return !!event.dataTransfer && Array.from(event.dataTransfer.types).indexOf('Files') !== -1;
+  };
+
+  dock.node.addEventListener('dragover', (event: DragEvent) => {
+    if (!hasFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer!.dropEffect = 'copy';
+    dock.addClass('p-mod-file-drop');
+  });
+
+  dock.node.addEventListener('dragleave', (event: DragEvent) => {
+    if (event.target === dock.node) {
+      dock.removeClass('p-mod-file-drop');
+    }
+  });
+
+  dock.node.addEventListener('drop', (event: DragEvent) => {
+    if (!hasFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    dock.removeClass('p-mod-file-drop');
+    for (let file of Array.from(event.dataTransfer!.files)) {
+      openFile(dock, file);
+    }
+  });
+}
+
+
+function main(): void {
+
+  // Browse a table server given as `?remote=http://host:port`, follow a
+  // live feed given as `?feed=ws://host:port`, or load the sample data.
+  let params = new URLSearchParams(window.location.search);
+  let remote = params.get('remote');
+  let feed = params.get('feed');
+
+  let model: BrowsableDataModel;
+  if (remote) {
+    let remoteModel = new RemoteTableDataModel({ url: remote });
+    remoteModel.load().catch(err => {
+      showStatus(`Could not load ${remote}: ${err.message}`);
+    });
+    model = remoteModel;
+  } else {
+    let tableModel = new TableDataModel({ statsWorker });
+    if (feed) {
+      new LiveFeed({ url: feed, model: tableModel });
+    } else {
+      fetch('data.json').then( res => {
+        res.json().then( result => {
+          tableModel.setRawData(result.data, result.keys, result.types);
+        })
+      });
+    }
+    model = tableModel;
+  }
+
   let dock = new DockPanel();
   dock.id = 'dock';
 
-  dock.addWidget(createWrapper(grid, 'DataStats'));
+  dock.addWidget(createWrapper(createGrid(model), 'DataStats'));
+
+  installDropTarget(dock);
 
   window.onresize = () => { dock.update(); };
 
+  Widget.attach(createToolbar(dock), document.body);
   Widget.attach(dock, document.body);
 }
 
@@ -0,0 +1,92 @@
+import {
+  Platform
+} from '@lumino/domutils';
+
+import {
+  DataGrid
+} from '@lumino/datagrid';
+
+import {
+  BrowsableDataModel
+} from './tabledatamodel';
+
+
+/**
+ * A key handler binding the edit history of a table data model.
+ *
+ * #### Notes
+ * `Ctrl+Z` undoes the last edit of a body cell, `Ctrl+Y` and
+ * `Ctrl+Shift+Z` redo it (`Cmd` on macOS). Keys typed into the input
+ * overlay keep their native behavior.
+ */
+export
+class KeyHandler implements DataGrid.IKeyHandler {
+  /**
+   * Construct a new key handler.
+   *
+   * @param options - The options for initializing the key handler.
+   */
+  constructor(options: KeyHandler.IOptions) {
+    this._dataModel = options.dataModel;
+  }
+
+  /**
+   * Whether the key handler is disposed.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Dispose of the resources held by the key handler.
+   */
+  dispose(): void {
+    this._disposed = true;
+  }
+
+  /**
+   * Handle the key down event for the data grid.
+   *
+   * @param grid - The data grid of interest.
+   *
+   * @param event - The keydown event of interest.
+   */
+  onKeyDown(grid: DataGrid, event: KeyboardEvent): void {
+    if (!Platform.accelKey(event) || event.target instanceof HTMLInputElement) {
+      return;
+    }
+
+    let key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      this._dataModel.undo();
+    } else if (key === 'y' || key === 'z') {
+      this._dataModel.redo();
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  private _dataModel: BrowsableDataModel;
+  private _disposed = false;
+}
+
+
+/**
+ * The namespace for the `KeyHandler` class statics.
+ */
+export
+namespace KeyHandler {
+  /**
+   * An options object for initializing a key handler.
+   */
+  export
+  interface IOptions {
+    /**
+     * The data model whose edits are undone and redone.
+     */
+    dataModel: BrowsableDataModel;
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  IDisposable
+} from '@lumino/disposable';
+
+import {
+  TableDataModel
+} from './tabledatamodel';
+
+
+/**
+ * A live feed of rows from a WebSocket endpoint into a table data model.
+ *
+ * #### Notes
+ * The endpoint sends JSON text messages, one `LiveFeed.Message` each:
+ *
+ * - `{"type": "schema", "keys": [...], "types": [...], "key": "id"}`
+ *   replaces the data of the model with new, empty columns. The optional
+ *   `key` names the column identifying the rows for upserts and deletes.
+ * - `{"type": "rows", "rows": [...]}` appends a batch of rows.
+ * - `{"type": "upsert", "rows": [...]}` replaces the rows with the same
+ *   key and appends the others.
+ * - `{"type": "delete", "keys": [...]}` removes the rows with the keys.
+ *
+ * A row is an array of values in column order, or an object of values by
+ * column name. Missing values are `null`.
+ *
+ * Batches are applied in place, so the filters, sort and scroll position
+ * of the grids showing the model are kept.
+ *
+ * The feed must be the only writer of the rows of its model: it keeps the
+ * data row of each key to apply upserts and deletes in constant time, and
+ * rows appended or removed through the model directly would shift them.
+ * The key column is also set as the key column of the model, so the row
+ * header shows the keys.
+ */
+export
+class LiveFeed implements IDisposable {
+  /**
+   * Construct a new live feed and connect to its endpoint.
+   *
+   * @param options - The options for initializing the live feed.
+   */
+  constructor(options: LiveFeed.IOptions) {
+    this.model = options.model;
+    this._socket = new WebSocket(options.url);
+    this._socket.onmessage = (event: MessageEvent) => {
+      this._onMessage(event);
+    };
+    this._socket.onerror = () => {
+      console.error(`Live feed error: ${options.url}`);
+    };
+  }
+
+  /**
+   * The data model the messages are applied to.
+   */
+  readonly model: TableDataModel;
+
+  /**
+   * Whether the live feed is disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Dispose of the live feed and close its connection.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._socket.onmessage = null;
+    this._socket.onerror = null;
+    this._socket.close();
+  }
+
+  /**
+   * Apply a message of the feed protocol to the model.
+   *
+   * @param message - The message to apply.
+   *
+   * #### Notes
+   * This is called for each message received from the endpoint.
+   */
+  handleMessage(message: LiveFeed.Message): void {
+    switch (message.type) {
+    case 'schema':
+      this._setSchema(message);
+      break;
+    case 'rows':
+      this._appendRows(this._normalizeRows(message.rows));
+      break;
+    case 'upsert':
+      this._upsertRows(this._normalizeRows(message.rows));
+      break;
+    case 'delete':
+      this._deleteRows(message.keys);
+      break;
+    default:
+      let unknown: never = message;
+      throw new Error(`Unknown message type: ${(unknown as { type: string }).type}`);
+    }
+  }
+
+  /**
+   * Handle a message arriving from the socket.
+   */
+  private _onMessage(event: MessageEvent): void {
+    try {
+      this.handleMessage(JSON.parse(event.data));
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  /**
+   * Replace the model data with the columns of a schema.
+   */
+  private _setSchema(message: LiveFeed.ISchemaMessage): void {
+    this._columnKeys = message.keys;
+    this._keyColumn = (message.key === undefined) ? -1 : message.keys.indexOf(message.key);
+    if (message.key !== undefined && this._keyColumn < 0) {
+      throw new Error(`Unknown key column: ${message.key}`);
+    }
+
+    let data = this._normalizeRows(message.rows || []);
+    this._rowKeys = [];
+    this._keyRows.clear();
+    this._recordKeys(data);
+    this.model.setRawData(data, message.keys, message.types);
+    this.model.setKeyColumn(this._keyColumn);
+  }
+
+  /**
+   * Append rows to the model.
+   */
+  private _appendRows(data: Array<Array<any>>): void {
+    this._recordKeys(data);
+    this.model.appendRows(data);
+  }
+
+  /**
+   * Replace the rows with a known key and append the others.
+   */
+  private _upsertRows(data: Array<Array<any>>): void {
+    if (this._keyColumn < 0) {
+      this._appendRows(data);
+      return;
+    }
+
+    // The last row of the batch with a key wins.
+    let updates = new Map<number, Array<any>>();
+    let inserts = new Map<any, Array<any>>();
+    for (let values of data) {
+      let key = values[this._keyColumn];
+      let row = this._keyRows.get(key);
+      if (row === undefined) {
+        inserts.set(key, values);
+      } else {
+        updates.set(row, values);
+      }
+    }
+
+    this.model.updateRows(Array.from(updates.keys()), Array.from(updates.values()));
+    this._appendRows(Array.from(inserts.values()));
+  }
+
+  /**
+   * Remove the rows with a key from the model.
+   */
+  private _deleteRows(keys: Array<any>): void {
+    if (this._keyColumn < 0) {
+      throw new Error('Cannot delete rows of a feed without a key column');
+    }
+
+    let rows = new Set<number>();
+    for (let key of keys) {
+      let row = this._keyRows.get(key);
+      if (row !== undefined) {
+        rows.add(row);
+      }
+    }
+    if (rows.size === 0) {
+      return;
+    }
+
+    this.model.removeRows(Array.from(rows));
+
+    // The rows below the removed rows move up.
+    this._rowKeys = this._rowKeys.filter((key, row) => !rows.has(row));
+    this._keyRows.clear();
+    this._rowKeys.forEach((key, row) => { this._keyRows.set(key, row); });
+  }
+
+  /**
+   * Record the keys of rows appended to the model.
+   */
+  private _recordKeys(data: Array<Array<any>>): void {
+    if (this._keyColumn < 0) {
+      return;
+    }
+    for (let values of data) {
+      let key = values[this._keyColumn];
+      this._keyRows.set(key, this._rowKeys.length);
+      this._rowKeys.push(key);
+    }
+  }
+
+  /**
+   * Convert the rows of a message to arrays of values in column order.
+   */
+  private _normalizeRows(rows: Array<LiveFeed.Row>): Array<Array<any>> {
+    let keys = this._columnKeys;
+    return rows.map(row => {
+      let values = Array.isArray(row) ? row : keys.map(key => row[key]);
+      return keys.map((key, i) => (values[i] === undefined) ? null : values[i]);
+    });
+  }
+
+  private _socket: WebSocket;
+  private _isDisposed = false;
+  private _columnKeys: Array<string> = [];
+  private _keyColumn = -1;
+  private _rowKeys: Array<any> = [];
+  private _keyRows = new Map<any, number>();
+}
+
+
+/**
+ * The namespace for the `LiveFeed` class statics.
+ */
+export
+namespace LiveFeed {
+  /**
+   * An options object for initializing a live feed.
+   */
+  export
+  interface IOptions {
+    /**
+     * The URL of the WebSocket endpoint.
+     */
+    url: string;
+
+    /**
+     * The data model to apply the messages to.
+     */
+    model: TableDataModel;
+  }
+
+  /**
+   * A row of a message, as values in column order or by column name.
+   */
+  export
+  type Row = Array<any> | { [key: string]: any };
+
+  /**
+   * A message setting the columns of the feed.
+   */
+  export
+  interface ISchemaMessage {
+    type: 'schema';
+
+    /**
+     * The column names.
+     */
+    keys: Array<string>;
+
+    /**
+     * The column types.
+     */
+    types: Array<string>;
+
+    /**
+     * The name of the column identifying the rows, if any.
+     */
+    key?: string;
+
+    /**
+     * The initial rows, if any.
+     */
+    rows?: Array<Row>;
+  }
+
+  /**
+   * A message appending a batch of rows.
+   */
+  export
+  interface IRowsMessage {
+    type: 'rows';
+    rows: Array<Row>;
+  }
+
+  /**
+   * A message replacing or appending rows by key.
+   */
+  export
+  interface IUpsertMessage {
+    type: 'upsert';
+    rows: Array<Row>;
+  }
+
+  /**
+   * A message removing rows by key.
+   */
+  export
+  interface IDeleteMessage {
+    type: 'delete';
+    keys: Array<any>;
+  }
+
+  /**
+   * A message of the live feed protocol.
+   */
+  export
+  type Message = ISchemaMessage | IRowsMessage | IUpsertMessage | IDeleteMessage;
+}
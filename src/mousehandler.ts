@@ -5,6 +5,10 @@
 |
 | The full license is in the file LICENSE, distributed with this software.
 |----------------------------------------------------------------------------*/
+import {
+  MimeData
+} from '@lumino/coreutils';
+
 import {
   IDisposable
 } from '@lumino/disposable';
@@ -14,21 +18,25 @@ import {
 } from '@lumino/domutils';
 
 import {
-  Drag
+  Drag, IDragEvent
 } from '@lumino/dragdrop';
 
 import {
-  DataGrid, MutableDataModel, DataModel, SelectionModel, TextRenderer, CellRenderer
+  DataGrid, DataModel, SelectionModel, TextRenderer, CellRenderer
 } from '@lumino/datagrid';
 
 import {
-  TableDataModel, ColumnStats
+  BrowsableDataModel, ColumnStats
 } from './tabledatamodel';
 
 import {
   HeaderRenderer
 } from './cellrenderer';
 
+import {
+  formatValue
+} from './valueparser';
+
 
 export
 class MouseHandler implements DataGrid.IMouseHandler {
@@ -41,6 +49,7 @@ class MouseHandler implements DataGrid.IMouseHandler {
     this._headerRenderer = options.headerRenderer;
 
     this._tooltipFormatter = options.tooltipFormatter || null;
+    this._headerMenu = options.headerMenu || null;
 
     // Create the tooltip element
     this._tooltipElement = Private.createTooltip();
@@ -48,7 +57,10 @@ class MouseHandler implements DataGrid.IMouseHandler {
     // Create the input element
     this._inputElement = Private.createInput();
 
-    this._dataModel = (options.dataModel as TableDataModel)
+    // Create the element showing the errors of the input
+    this._inputErrorElement = Private.createInputError();
+
+    this._dataModel = (options.dataModel as BrowsableDataModel)
 
     options.dataModel.changed.connect(this.onDataModelChanged, this);
 
@@ -57,6 +69,13 @@ class MouseHandler implements DataGrid.IMouseHandler {
     body.appendChild(this._tooltipElement);
 
     options.dataGrid.viewport.node.appendChild(this._inputElement);
+    options.dataGrid.viewport.node.appendChild(this._inputErrorElement);
+
+    // Accept the columns dragged by their title onto the grid.
+    this._dataGrid = options.dataGrid;
+    this._dataGrid.node.addEventListener('lm-dragenter', this);
+    this._dataGrid.node.addEventListener('lm-dragover', this);
+    this._dataGrid.node.addEventListener('lm-drop', this);
   }
 
 
@@ -76,6 +95,10 @@ class MouseHandler implements DataGrid.IMouseHandler {
     let body = document.getElementsByTagName('body')[0];
     body.removeChild(this._tooltipElement);
 
+    this._dataGrid.node.removeEventListener('lm-dragenter', this);
+    this._dataGrid.node.removeEventListener('lm-dragover', this);
+    this._dataGrid.node.removeEventListener('lm-drop', this);
+
     // Mark the handler as disposed.
     this._disposed = true;
   }
@@ -87,6 +110,42 @@ class MouseHandler implements DataGrid.IMouseHandler {
     return this._disposed;
   }
 
+  /**
+   * Handle the drag events of a column dragged onto the grid.
+   *
+   * @param event - The DOM event sent to the grid node.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the grid node. It should not be
+   * called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    let dragEvent = event as IDragEvent;
+    if (!dragEvent.mimeData || !dragEvent.mimeData.hasData(Private.COLUMN_MIME)) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+
+    switch (event.type) {
+    case 'lm-dragenter':
+      break;
+    case 'lm-dragover':
+      dragEvent.dropAction = (this._dropIndex(dragEvent) < 0) ? 'none' : 'move';
+      break;
+    case 'lm-drop':
+      let index = this._dropIndex(dragEvent);
+      if (index < 0 || !this._dataModel.moveColumn) {
+        dragEvent.dropAction = 'none';
+        return;
+      }
+      this._dataModel.moveColumn(dragEvent.mimeData.getData(Private.COLUMN_MIME), index);
+      dragEvent.dropAction = 'move';
+      break;
+    }
+  }
+
   /**
    * Release the resources held by the handler.
    */
@@ -107,7 +166,16 @@ class MouseHandler implements DataGrid.IMouseHandler {
   }
 
   onDataModelChanged(sender: DataModel, args: DataModel.ChangedArgs): void {
-    if (this._hoverData && this._tooltipFormatter) {
+    // Cancel a brush over bins which were replaced by new statistics.
+    let data = this._pressData;
+    if (data && data.type === 'brush' && this._dataModel.columnStats(data.column) !== data.value) {
+      this._dataModel.setBrushedBins(data.column, null);
+      this.release();
+    }
+
+    // Only refresh the shown tooltip when its cell may have changed, as
+    // the profile of a column header is costly to compute.
+    if (this._hoverData && this._tooltipFormatter && Private.changesCell(args, this._hoverData.config)) {
       let {config} = this._hoverData;
       let conf = {
         ...config,
@@ -141,19 +209,42 @@ class MouseHandler implements DataGrid.IMouseHandler {
     grid.viewport.node.style.cursor = cursor;
 
     // TODO support user-defined hover items
-    if (hit.region === 'column-header' && hit.row == 0) {
+    let headerColumn = this._headerColumn(hit);
+    if (hit.region !== 'void' && headerColumn >= 0) {
 
       let bin = this._headerRenderer.hitTestBin(hit.x, hit.y, hit.width, hit.height,
         this._dataModel.data(hit.region, hit.row, hit.column)
       );
-      this._dataModel.setHoveredBin(hit.column, bin);
+      this._dataModel.setHoveredBin(headerColumn, bin);
 
-      Private.hideTooltip(this._tooltipElement);
-      this._hoverData = null;
-    } else if (hit.region === 'body' && this._tooltipFormatter) {
+      // Show the column profile card outside of the histogram bins.
+      if (bin === -1 && this._tooltipFormatter) {
+        let config = {
+          x: hit.x, y: hit.y, width: hit.width, height: hit.height,
+          region: hit.region, row: hit.row, column: hit.column,
+          metadata: this._dataModel.metadata(hit.region, hit.row, hit.column),
+          value: this._dataModel.tooltip(hit.region, hit.row, hit.column)
+        };
+
+        this._hoverData = {
+          config, clientX: event.clientX, clientY: event.clientY
+        };
+
+        let value = this._tooltipFormatter(config);
+        if (value === '') {
+          Private.hideTooltip(this._tooltipElement);
+          this._hoverData = null;
+        } else {
+          Private.showTooltip(this._tooltipElement, this._hoverData, value);
+        }
+      } else {
+        Private.hideTooltip(this._tooltipElement);
+        this._hoverData = null;
+      }
+    } else if (Private.isBodyCell(this._dataModel, hit) && this._tooltipFormatter) {
       try {
 
-        this._dataModel.setHoveredBin(hit.column, -1);
+        this._dataModel.setHoveredBin(this._dataModel.dataColumn(hit.region, hit.column), -1);
 
         let config = {
           x: hit.x, y: hit.y, width: hit.width, height: hit.height,
@@ -351,20 +442,46 @@ class MouseHandler implements DataGrid.IMouseHandler {
       return;
     }
 
-    if (region === 'column-header' && hit.row === 0) {
+    let headerColumn = this._headerColumn(hit);
+    if (headerColumn >= 0) {
+      // Cycle the sort order when the column title is clicked, or drag
+      // the column when the title is dragged.
+      if (this._headerRenderer.hitTestTitle(hit.x, hit.y, hit.width, hit.height)) {
+        let override = Drag.overrideCursor('default');
+        let stats = this._dataModel.data(region, hit.row, hit.column) as ColumnStats;
+        this._pressData = {
+          type: 'title', column: headerColumn, header: stats.header,
+          clientX, clientY, additive: shift, override
+        };
+        return;
+      }
+
       let value = this._dataModel.data(region, hit.row, hit.column);
       let bin = this._headerRenderer.hitTestBin(hit.x, hit.y, hit.width, hit.height, value);
       if (bin !== -1) {
         let stats = (value as ColumnStats);
+
+        // Start a brush on the histogram of a numeric or temporal column.
+        if (bin !== 'null' && stats.bins[bin].min !== undefined && !stats.byLength) {
+          let override = Drag.overrideCursor('default');
+          this._pressData = {
+            type: 'brush', column: headerColumn, value: stats, start: bin, end: bin,
+            cellX: clientX - hit.x, width: hit.width,
+            additive: shift, exclude: event.altKey, override
+          };
+          this._dataModel.setBrushedBins(headerColumn, [bin, bin]);
+          return;
+        }
+
         let bitset = (bin === 'null') ? stats.nullBin.bitset : stats.bins[bin].bitset;
-        this._dataModel.filterBin(bitset, !shift);
+        this._dataModel.filterBin(headerColumn, bitset, !shift, event.altKey);
       } else {
-        this._dataModel.filterBin(null, false);
+        this._dataModel.filterBin(headerColumn, null, false);
       }
 
       // Done.
       return;
-    } else if (region === 'column-header' && hit.row === 1) {
+    } else if ((region === 'column-header' || region === 'corner-header') && hit.row === 1) {
       let override = Drag.overrideCursor('default');
       this._pressData = {
         type: 'click', region, row, column, override
@@ -470,6 +587,26 @@ class MouseHandler implements DataGrid.IMouseHandler {
       return;
     }
 
+    // Start dragging a column once its title is dragged far enough.
+    if (data.type === 'title') {
+      let dx = event.clientX - data.clientX;
+      let dy = event.clientY - data.clientY;
+      if (this._dataModel.moveColumn && dx * dx + dy * dy >= Private.DRAG_THRESHOLD * Private.DRAG_THRESHOLD) {
+        this._startColumnDrag(data.column, data.header, event.clientX, event.clientY);
+      }
+      return;
+    }
+
+    // Handle a histogram brush.
+    if (data.type === 'brush') {
+      let end = this._headerRenderer.binAtX(event.clientX - data.cellX, data.width, data.value);
+      if (end !== -1 && end !== data.end) {
+        data.end = end;
+        this._dataModel.setBrushedBins(data.column, [data.start, end]);
+      }
+      return;
+    }
+
     // Otherwise, it's a select.
 
     if (data.type === 'select') {
@@ -607,11 +744,30 @@ class MouseHandler implements DataGrid.IMouseHandler {
       let { lx, ly } = grid.mapToLocal(event.clientX, event.clientY);
       let value = this._dataModel.data(hit.region, hit.row, hit.column);
 
-      Private.activateInput(this._dataModel, this._inputElement,
+      Private.activateInput(this._dataModel, this._inputElement, this._inputErrorElement,
         value, data.region, hit.row, hit.column,
         lx - hit.x, ly - hit.y, hit.width, hit.height);
     }
 
+    // Sort by the clicked column title.
+    if (data && data.type === 'title') {
+      this._dataModel.cycleSort(data.column, data.additive);
+    }
+
+    // Filter by the brushed bin, or by the value range of the brushed bins.
+    if (data && data.type === 'brush') {
+      let { column, value, start, end } = data;
+      this._dataModel.setBrushedBins(column, null);
+
+      if (start === end) {
+        this._dataModel.filterBin(column, value.bins[start].bitset, !data.additive, data.exclude);
+      } else {
+        let first = value.bins[Math.min(start, end)];
+        let last = value.bins[Math.max(start, end)];
+        this._dataModel.filterRange(column, first.min!, last.max!);
+      }
+    }
+
     this.release();
   }
 
@@ -623,6 +779,20 @@ class MouseHandler implements DataGrid.IMouseHandler {
    * @param event - The mouse up event of interest.
    */
   onMouseDoubleClick(grid: DataGrid, event: MouseEvent): void {
+    let hit = grid.hitTest(event.clientX, event.clientY);
+
+    // Edit the double clicked body cell.
+    if (!Private.isBodyCell(this._dataModel, hit) || hit.row < 0 || hit.column < 0) {
+      return;
+    }
+
+    let { lx, ly } = grid.mapToLocal(event.clientX, event.clientY);
+    let value = this._dataModel.data(hit.region, hit.row, hit.column);
+    let { type } = this._dataModel.metadata(hit.region, hit.row, hit.column);
+
+    Private.activateInput(this._dataModel, this._inputElement, this._inputErrorElement,
+      formatValue(value, type), hit.region, hit.row, hit.column,
+      lx - hit.x, ly - hit.y, hit.width, hit.height);
   }
 
   /**
@@ -633,9 +803,22 @@ class MouseHandler implements DataGrid.IMouseHandler {
    * @param event - The context menu event of interest.
    */
   onContextMenu(grid: DataGrid, event: MouseEvent): void {
-    // TODO support user-defined context menus
     event.preventDefault();
     event.stopPropagation();
+
+    // Open the menu of the column header hit.
+    let hit = grid.hitTest(event.clientX, event.clientY);
+    let column = this._headerColumn(hit);
+    if (this._headerMenu === null || hit.region === 'void' || column < 0) {
+      return;
+    }
+
+    let bin = this._headerRenderer.hitTestBin(hit.x, hit.y, hit.width, hit.height,
+      this._dataModel.data(hit.region, hit.row, hit.column)
+    );
+    Private.hideTooltip(this._tooltipElement);
+    this._hoverData = null;
+    this._headerMenu(column, bin, event.clientX, event.clientY);
   }
 
   /**
@@ -707,16 +890,66 @@ class MouseHandler implements DataGrid.IMouseHandler {
 
   }
 
+  /**
+   * Get the data column of the histogram header hit, or `-1` if the hit
+   * is not on the first header row of a column.
+   */
+  private _headerColumn(hit: DataGrid.HitTestResult): number {
+    if (hit.row !== 0 || (hit.region !== 'column-header' && hit.region !== 'corner-header')) {
+      return -1;
+    }
+    return this._dataModel.dataColumn(hit.region, hit.column);
+  }
+
+  /**
+   * Get the view index a column is dragged to, or `-1` if the mouse is
+   * not over a column.
+   */
+  private _dropIndex(event: IDragEvent): number {
+    let grid = this._dataGrid;
+    let hit = grid.hitTest(event.clientX, event.clientY);
+    if (hit.region === 'void' || hit.column < 0 || this._dataModel.dataColumn(hit.region, hit.column) < 0) {
+      return -1;
+    }
+    // The pinned columns follow the row numbers in the row header.
+    if (hit.region === 'row-header' || hit.region === 'corner-header') {
+      return hit.column - 1;
+    }
+    return this._dataModel.columnCount('row-header') - 1 + hit.column;
+  }
+
+  /**
+   * Start dragging a column to another position.
+   */
+  private _startColumnDrag(column: number, header: string, clientX: number, clientY: number): void {
+    this.release();
+
+    let mimeData = new MimeData();
+    mimeData.setData(Private.COLUMN_MIME, column);
+
+    let drag = new Drag({
+      mimeData,
+      dragImage: Private.createDragImage(header),
+      proposedAction: 'move',
+      supportedActions: 'move',
+      source: this
+    });
+    drag.start(clientX, clientY);
+  }
+
   private _disposed = false;
+  private _dataGrid: DataGrid;
   private _pressData: Private.PressData | null;
 
   private _headerRenderer: HeaderRenderer;
-  private _dataModel: TableDataModel;
+  private _dataModel: BrowsableDataModel;
 
   private _hoverData: Private.HoverData | null;
   private _tooltipFormatter: TextRenderer.FormatFunc | null;
+  private _headerMenu: MouseHandler.HeaderMenuFunc | null;
   private _tooltipElement: HTMLDivElement;
   private _inputElement: HTMLInputElement;
+  private _inputErrorElement: HTMLDivElement;
 }
 
 
@@ -725,6 +958,21 @@ class MouseHandler implements DataGrid.IMouseHandler {
  */
 export
 namespace MouseHandler {
+  /**
+   * A type alias for a function opening the menu of a column header.
+   *
+   * @param column - The data column of the header.
+   *
+   * @param bin - The histogram bin under the mouse, `'null'` for the bin
+   *   of the missing values, or `-1` for none.
+   *
+   * @param clientX - The client X position of the mouse.
+   *
+   * @param clientY - The client Y position of the mouse.
+   */
+  export
+  type HeaderMenuFunc = (column: number, bin: number | 'null', clientX: number, clientY: number) => void;
+
   /**
    * An options object for initializing a data grid.
    */
@@ -753,6 +1001,13 @@ namespace MouseHandler {
      * The default is null
      */
     tooltipFormatter?: TextRenderer.FormatFunc;
+
+    /**
+     * The function opening the menu of a column header on a right click.
+     *
+     * The default is null, which opens no menu.
+     */
+    headerMenu?: HeaderMenuFunc;
   }
 }
 
@@ -910,11 +1165,140 @@ namespace Private {
     readonly override: IDisposable;
   };
 
+  /**
+   * A type alias for the histogram brush data.
+   */
+  export
+  type BrushData = {
+    /**
+     * The descriminated type for the data.
+     */
+    readonly type: 'brush';
+
+    /**
+     * The column being brushed.
+     */
+    readonly column: number;
+
+    /**
+     * The column stats of the brushed header.
+     */
+    readonly value: ColumnStats;
+
+    /**
+     * The bin where the brush started.
+     */
+    readonly start: number;
+
+    /**
+     * The bin where the brush currently ends.
+     */
+    end: number;
+
+    /**
+     * The client X position of the left edge of the header cell.
+     */
+    readonly cellX: number;
+
+    /**
+     * The width of the header cell.
+     */
+    readonly width: number;
+
+    /**
+     * Whether the bin of a single click is added to the column filter.
+     */
+    readonly additive: boolean;
+
+    /**
+     * Whether the bin of a single click is excluded.
+     */
+    readonly exclude: boolean;
+
+    /**
+     * The disposable to clear the cursor override.
+     */
+    readonly override: IDisposable;
+  };
+
+  /**
+   * A type alias for the column title press data.
+   */
+  export
+  type TitleData = {
+    /**
+     * The descriminated type for the data.
+     */
+    readonly type: 'title';
+
+    /**
+     * The data column of the pressed title.
+     */
+    readonly column: number;
+
+    /**
+     * The header of the column, shown while it is dragged.
+     */
+    readonly header: string;
+
+    /**
+     * The client X position of the press.
+     */
+    readonly clientX: number;
+
+    /**
+     * The client Y position of the press.
+     */
+    readonly clientY: number;
+
+    /**
+     * Whether a click adds the column to the sort keys.
+     */
+    readonly additive: boolean;
+
+    /**
+     * The disposable to clear the cursor override.
+     */
+    readonly override: IDisposable;
+  };
+
   /**
    * A type alias for the resize handler press data.
    */
   export
-  type PressData = RowResizeData | ColumnResizeData | SelectData | ClickData ;
+  type PressData = RowResizeData | ColumnResizeData | SelectData | ClickData | BrushData | TitleData;
+
+  /**
+   * The MIME type of the data column of a dragged column.
+   */
+  export
+  const COLUMN_MIME = 'application/x-databrowser-column';
+
+  /**
+   * The distance in pixels a column title is dragged before the column
+   * is dragged.
+   */
+  export
+  const DRAG_THRESHOLD = 5;
+
+  /**
+   * Test whether a hit is on a cell of the body, or of a pinned column.
+   */
+  export
+  function isBodyCell(model: BrowsableDataModel, hit: DataGrid.HitTestResult): hit is DataGrid.HitTestResult & { region: 'body' | 'row-header' } {
+    return hit.region === 'body' || (hit.region === 'row-header' && model.dataColumn(hit.region, hit.column) >= 0);
+  }
+
+  /**
+   * Create the drag image of a dragged column.
+   */
+  export
+  function createDragImage(header: string): HTMLElement {
+    let image = document.createElement('div');
+    image.className = 'p-DataGrid-columnDragImage';
+    image.textContent = header;
+    return image;
+  }
 
   /**
    * A type alias for the hover data.
@@ -1152,8 +1536,20 @@ namespace Private {
     return input;
   }
 
+  /**
+   * Create a new hidden element for the errors of the input.
+   */
+  export
+  function createInputError(): HTMLDivElement {
+    let error = document.createElement('div');
+    error.style.display = 'none';
+    error.style.position = 'absolute';
+    error.classList.add('p-DataGrid-inputError');
+    return error;
+  }
+
   export
-  function activateInput(model: MutableDataModel, input: HTMLInputElement, value: any, region: DataModel.CellRegion, row: number, column: number,
+  function activateInput(model: BrowsableDataModel, input: HTMLInputElement, error: HTMLDivElement, value: any, region: DataModel.CellRegion, row: number, column: number,
     x: number, y: number, width: number, height: number) {
     input.style.display = 'block';
     input.style.width = (width - 32) + 'px';
@@ -1162,8 +1558,35 @@ namespace Private {
     input.style.left = x + 'px';
     input.value = value || '';
 
+    error.style.top = (y + height) + 'px';
+    error.style.left = x + 'px';
+
+    // A body cell is only set when its edit is committed.
+    let dataColumn = model.dataColumn(region, column);
+    let isEdit = region === 'body' || (region === 'row-header' && dataColumn >= 0);
+
+    // Show the error parsing a column filter or an edited value below the input.
+    let updateError = () => {
+      let message = isEdit ? model.editError(dataColumn, input.value) :
+        (dataColumn >= 0) ? model.filterError(dataColumn) : null;
+      error.textContent = message || '';
+      error.style.display = (message && input.style.display !== 'none') ? 'block' : 'none';
+      input.classList.toggle('p-mod-invalid', error.style.display === 'block');
+    };
+
     let dblclick = (event: Event) => { event.stopPropagation(); };
     let keyup = (event: KeyboardEvent) => {
+      if (isEdit) {
+        if (event.key === 'Enter' && model.editError(dataColumn, input.value) === null) {
+          model.setData(region, row, column, input.value);
+          onblur();
+        } else if (event.key === 'Escape') {
+          onblur();
+        }
+        updateError();
+        return;
+      }
+
       if (event.key === 'Enter') {
         model.setData(region, row, column, input.value);
         onblur();
@@ -1172,6 +1595,7 @@ namespace Private {
         onblur();
       }
       model.setData(region, row, column, input.value);
+      updateError();
     };
 
     let onblur = () => {
@@ -1179,12 +1603,14 @@ namespace Private {
       input.removeEventListener('dblclick', dblclick);
       input.removeEventListener('keyup', keyup);
       input.style.display = 'none';
+      updateError();
     }
 
     input.addEventListener('blur', onblur);
     input.addEventListener('dblclick', dblclick);
     input.addEventListener('keyup', keyup);
 
+    updateError();
     input.select();
     input.focus();
   }
@@ -1233,4 +1659,26 @@ namespace Private {
   function hideTooltip(tooltip: HTMLDivElement) : void {
     tooltip.style.display = 'none';
   }
+
+  /**
+   * Test whether a change of a data model may change a cell.
+   *
+   * #### Notes
+   * The changes of rows and columns move the cells of their region, so
+   * they may change any cell of the region.
+   */
+  export
+  function changesCell(args: DataModel.ChangedArgs, config: CellRenderer.CellConfig): boolean {
+    if (args.type === 'model-reset') {
+      return true;
+    }
+    if (args.region !== config.region) {
+      return false;
+    }
+    if (args.type !== 'cells-changed') {
+      return true;
+    }
+    return config.row >= args.row && config.row < args.row + args.rowSpan &&
+      config.column >= args.column && config.column < args.column + args.columnSpan;
+  }
 }
@@ -0,0 +1,885 @@
+import {
+  DataModel, MutableDataModel
+} from '@lumino/datagrid';
+
+import TypedFastBitSet = require('typedfastbitset');
+
+import {
+  BrowsableDataModel, ColumnBin, ColumnStats, SortKey, SortOrder
+} from './tabledatamodel';
+
+import {
+  formatValue
+} from './valueparser';
+
+
+/**
+ * A data model of a table too big for the browser, served by a backend.
+ *
+ * #### Notes
+ * The body rows are fetched in pages as the grid scrolls and kept in a
+ * least recently used cache. The column statistics, the bin counts under
+ * the filters and the filtered row count are computed by the backend.
+ *
+ * The backend answers `POST` requests of a JSON `RemoteTableDataModel.Query`
+ * with a JSON response, or with `{"error": "..."}`:
+ *
+ * - `{"type": "schema"}` is answered with the column names and types and
+ *   the number of rows, `{"keys": [...], "types": [...], "rowCount": n}`.
+ * - `{"type": "stats"}` is answered with the histogram of each column over
+ *   all the rows, `{"columns": [{"desc", "min", "max", "nullCount",
+ *   "bins": [{"label", "count", "min", "max"}]}]}`. The `min` and `max`
+ *   of the bins of numeric and temporal columns are their value ranges.
+ * - `{"type": "counts", "filters": [...]}` is answered with the number of
+ *   rows passing the filters and the linked count of each bin, which is
+ *   counted under the filters of the other columns only,
+ *   `{"rowCount": n, "columns": [{"bins": [n, ...], "nullCount": n}]}`.
+ * - `{"type": "rows", "filters": [...], "sort": [...], "offset": n,
+ *   "limit": n}` is answered with a page of the filtered and sorted rows,
+ *   `{"rows": [[...], ...]}`.
+ *
+ * A filter is `{"column": n, "include": [...] | null, "exclude": [...]}`
+ * with the indices of the included and excluded bins of the column, and
+ * `-1` for the missing values. A range filter also has `"range": [min,
+ * max]`, and its maximum is inclusive when it reaches the column maximum.
+ * The sort keys are `{"column": n, "order": "asc" | "desc"}` with the
+ * missing values last.
+ *
+ * The bins of the model hold stand-in bitsets which only know their size,
+ * so they are filtered through the grid like the bins of a table data
+ * model, but cannot be intersected.
+ */
+export
+class RemoteTableDataModel extends MutableDataModel implements BrowsableDataModel {
+  /**
+   * Construct a new remote table data model.
+   *
+   * @param options - The options for initializing the data model.
+   *
+   * #### Notes
+   * The model is empty until it is loaded.
+   */
+  constructor(options: RemoteTableDataModel.IOptions) {
+    super();
+    this._url = options.url;
+    this._pageSize = options.pageSize || 200;
+    this._pages = new Private.PageCache(options.cacheSize || 50);
+  }
+
+  /**
+   * Load the schema and the column statistics from the backend.
+   *
+   * @returns A promise resolved once the statistics and the counts of the
+   *   rows have arrived.
+   *
+   * #### Notes
+   * A failed counts request does not reject the promise; it is shown in
+   * the corner header of the grid.
+   */
+  load(): Promise<void> {
+    this._countsError = null;
+    return this._query<RemoteTableDataModel.ISchemaResponse>({ type: 'schema' }).then(schema => {
+      this._keys = schema.keys;
+      this._types = schema.types;
+      this._totalCount = schema.rowCount;
+      this._rowCount = schema.rowCount;
+      this._columnFilters.clear();
+      this._sortKeys = [];
+      this._columnStats = schema.keys.map(key => Private.pendingStats(key, schema.rowCount));
+      this._resetPages();
+      this.emitChanged({ type: 'model-reset' });
+      return this._query<RemoteTableDataModel.IStatsResponse>({ type: 'stats' });
+    }).then(stats => {
+      this._columnStats = stats.columns.map((column, i) => {
+        return Private.createStats(this._keys[i], column, this._totalCount);
+      });
+      this.emitChanged({ type: 'model-reset' });
+      return this._updateCounts();
+    });
+  }
+
+  /**
+   * The names of the columns.
+   */
+  get columnNames(): ReadonlyArray<string> {
+    return this._keys;
+  }
+
+  /**
+   * The types of the columns.
+   */
+  get columnTypes(): ReadonlyArray<string> {
+    return this._types;
+  }
+
+  /**
+   * The columns the body rows are sorted by, from primary to last key.
+   */
+  get sortKeys(): ReadonlyArray<SortKey> {
+    return this._sortKeys;
+  }
+
+  /**
+   * Get the statistics of a column.
+   *
+   * @param column - The column of interest.
+   */
+  columnStats(column: number): ColumnStats {
+    return this._columnStats[column];
+  }
+
+  /**
+   * Get the column of the data shown in a column of a grid region.
+   *
+   * #### Notes
+   * The columns of a remote table are shown in the order of the backend.
+   */
+  dataColumn(region: DataModel.CellRegion, column: number): number {
+    return (region === 'body' || region === 'column-header') ? column : -1;
+  }
+
+  setHoveredBin(column: number, bin: number | 'null'): void {
+    let previous = this._hoveredBin.column;
+    if (column === previous && bin === this._hoveredBin.bin) {
+      return;
+    }
+    this._hoveredBin = { column, bin };
+
+    if (previous !== column && previous >= 0) {
+      this._emitHeaderChange(previous);
+    }
+    this._emitHeaderChange(column);
+  }
+
+  /**
+   * Toggle a histogram bin in the filter of a column.
+   *
+   * @param column - The column of the bin.
+   *
+   * @param bitset - The stand-in rows of the bin, or `null` to clear the
+   *   filters of all the columns.
+   *
+   * @param isNew - Whether to replace the filter of the column, rather
+   *   than toggle the bin in it.
+   *
+   * @param exclude - Whether to exclude the rows of the bin, rather than
+   *   include them.
+   */
+  filterBin(column: number, bitset: TypedFastBitSet | null, isNew: boolean, exclude = false): void {
+    if (bitset === null) {
+      this._columnFilters.clear();
+      this._applyFilters();
+      return;
+    }
+
+    let current = isNew ? undefined : this._columnFilters.get(column);
+    let included = (current && current.include) ? current.include.slice() : [];
+    let excluded = current ? current.exclude.slice() : [];
+
+    let includeIndex = included.indexOf(bitset);
+    let excludeIndex = excluded.indexOf(bitset);
+    if (includeIndex >= 0) {
+      included.splice(includeIndex, 1);
+    }
+    if (excludeIndex >= 0) {
+      excluded.splice(excludeIndex, 1);
+    }
+
+    // Toggle the bin off when it is clicked again with the same modifier.
+    if (exclude && excludeIndex < 0) {
+      excluded.push(bitset);
+    } else if (!exclude && includeIndex < 0) {
+      included.push(bitset);
+    }
+
+    if (included.length === 0 && excluded.length === 0) {
+      this._columnFilters.delete(column);
+    } else {
+      this._columnFilters.set(column, {
+        include: (included.length > 0) ? included : null,
+        exclude: excluded
+      });
+    }
+    this._applyFilters();
+  }
+
+  /**
+   * Filter the rows by a value range of a numeric or temporal column.
+   *
+   * @param column - The column to filter.
+   *
+   * @param min - The inclusive lower bound of the range.
+   *
+   * @param max - The upper bound of the range. It is inclusive when it
+   *   reaches the maximum of the column.
+   */
+  filterRange(column: number, min: number, max: number): void {
+    this._columnFilters.set(column, { include: null, exclude: [], range: [min, max] });
+    this._applyFilters();
+  }
+
+  setBrushedBins(column: number, bins: [number, number] | null): void {
+    this._brush = (bins === null) ? null : {
+      column: column,
+      start: Math.min(bins[0], bins[1]),
+      end: Math.max(bins[0], bins[1])
+    };
+    this._emitHeaderChange(column);
+  }
+
+  /**
+   * Cycle the sort order of a column through ascending, descending and none.
+   *
+   * @param column - The column to sort by.
+   *
+   * @param additive - Whether to keep the other sort keys. A column which
+   *   is not sorted yet is then added as the last key.
+   */
+  cycleSort(column: number, additive: boolean): void {
+    let index = this._sortKeys.findIndex(key => key.column === column);
+    let current = (index < 0) ? null : this._sortKeys[index].order;
+    let next: SortOrder | null = (current === null) ? 'asc' : (current === 'asc') ? 'desc' : null;
+
+    if (!additive) {
+      this._sortKeys = (next === null) ? [] : [{ column, order: next }];
+    } else if (index < 0) {
+      this._sortKeys.push({ column, order: next! });
+    } else if (next === null) {
+      this._sortKeys.splice(index, 1);
+    } else {
+      this._sortKeys[index] = { column, order: next };
+    }
+
+    this._resetPages();
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * The quick filters are not supported by the backend protocol.
+   */
+  filterError(column: number): string | null {
+    return null;
+  }
+
+  /**
+   * Remote tables are read-only.
+   */
+  editError(column: number, text: string): string | null {
+    return 'A remote table cannot be edited';
+  }
+
+  undo(): void { }
+
+  redo(): void { }
+
+  rowCount(region: DataModel.RowRegion): number {
+    if (region === 'body') {
+      return this._rowCount;
+    }
+    return (region === 'column-header') ? 2 : 0;
+  }
+
+  columnCount(region: DataModel.ColumnRegion): number {
+    return (region === 'body') ? this._keys.length : 1;
+  }
+
+  data(region: DataModel.CellRegion, row: number, column: number): any {
+    switch (region) {
+    case 'corner-header':
+      return (row === 0) ? this._rowCount : null;
+    case 'row-header':
+      return row + 1;
+    case 'column-header':
+      return (row === 0) ? this._headerData(column) : null;
+    default:
+      let values = this._rowValues(row);
+      return (values === null) ? null : values[column];
+    }
+  }
+
+  tooltip(region: DataModel.CellRegion, row: number, column: number): any {
+    if (region === 'corner-header' && row === 0 && this._countsError !== null) {
+      return [['error', this._countsError]];
+    }
+    if (region !== 'body') {
+      return null;
+    }
+    let error = this._pageErrors.get(Math.floor(row / this._pageSize));
+    if (error !== undefined) {
+      return [['error', error]];
+    }
+    let values = this._rowValues(row);
+    return (values === null) ? null : this._keys.map((key, i) => [key, values![i]]);
+  }
+
+  metadata(region: DataModel.CellRegion, row: number, column: number): DataModel.Metadata {
+    if (region === 'column-header') {
+      let index = this._sortKeys.findIndex(key => key.column === column);
+      return {
+        'type': this._types[column],
+        'sort': (index < 0) ? null : this._sortKeys[index].order,
+        'sortRank': (index < 0 || this._sortKeys.length < 2) ? 0 : index + 1
+      };
+    }
+    if (region === 'body') {
+      let error = this._pageErrors.get(Math.floor(row / this._pageSize));
+      return { 'type': this._types[column], 'error': error !== undefined };
+    }
+    if (region === 'corner-header' && row === 0) {
+      return { 'error': this._countsError !== null };
+    }
+    return {};
+  }
+
+  /**
+   * Remote tables are read-only.
+   */
+  setData(region: DataModel.CellRegion, row: number, column: number, value: any): boolean {
+    return false;
+  }
+
+  /**
+   * Get the header data of a column, with the hovered or brushed bins.
+   */
+  private _headerData(column: number): ColumnStats {
+    let stats = this._columnStats[column];
+    let type = this._types[column];
+
+    if (this._brush !== null && this._brush.column === column) {
+      let { start, end } = this._brush;
+      let count = 0;
+      for (let i = start; i <= end; i++) {
+        count += stats.bins[i].count;
+      }
+      let frac = 100 * (count / this._totalCount);
+      return {
+        ...stats,
+        brushedBins: [start, end],
+        desc: Private.formatRange(stats.bins[start].min!, stats.bins[end].max!, type),
+        extra: ` (${count} - ${frac.toFixed(1)}%)`
+      };
+    }
+
+    let hovered = this._hoveredBin.bin;
+    if (column === this._hoveredBin.column && hovered !== -1) {
+      let bin = (hovered === 'null') ? stats.nullBin : stats.bins[hovered];
+      if (bin === undefined) {
+        return stats;
+      }
+      let extra: string;
+      if (stats.isLinked) {
+        let count = bin.linked.size();
+        extra = ` (${count}/${bin.count} - ${(100 * count / bin.count).toFixed(1)}%)`;
+      } else {
+        extra = ` (${bin.count} - ${(100 * bin.count / this._totalCount).toFixed(1)}%)`;
+      }
+      return { ...stats, desc: bin.label, extra, hoveredBin: (hovered === 'null') ? -1 : hovered };
+    }
+
+    let filter = this._columnFilters.get(column);
+    if (filter !== undefined && filter.range) {
+      let [min, max] = filter.range;
+      return { ...stats, desc: Private.formatRange(min, max, type) };
+    }
+    return stats;
+  }
+
+  /**
+   * Get the values of a body row, fetching its page if it is not cached.
+   */
+  private _rowValues(row: number): Array<any> | null {
+    let page = Math.floor(row / this._pageSize);
+    let rows = this._pages.get(page);
+    if (rows === undefined) {
+      if (!this._pageErrors.has(page)) {
+        this._fetchPage(page);
+      }
+      return null;
+    }
+    return rows[row - page * this._pageSize] || null;
+  }
+
+  /**
+   * Fetch a page of body rows unless it is already requested.
+   */
+  private _fetchPage(page: number): void {
+    if (this._pendingPages.has(page)) {
+      return;
+    }
+    this._pendingPages.add(page);
+
+    let generation = this._generation;
+    this._query<RemoteTableDataModel.IRowsResponse>({
+      type: 'rows',
+      filters: this._filterQuery(),
+      sort: this._sortKeys.slice(),
+      offset: page * this._pageSize,
+      limit: this._pageSize
+    }).then(response => {
+      // Drop the rows of a previous filter or sort.
+      if (generation !== this._generation) {
+        return;
+      }
+      this._pendingPages.delete(page);
+      this._pages.set(page, response.rows);
+
+      let start = page * this._pageSize;
+      let rowSpan = Math.min(response.rows.length, this._rowCount - start);
+      if (rowSpan > 0) {
+        this.emitChanged({
+          type: 'cells-changed',
+          region: 'body',
+          row: start, rowSpan,
+          column: 0, columnSpan: this._keys.length
+        });
+      }
+    }).catch(err => {
+      if (generation !== this._generation) {
+        return;
+      }
+      // Keep the failed page out of the fetches until the next filter or
+      // sort, and show its rows as failed.
+      this._pendingPages.delete(page);
+      this._pageErrors.set(page, String(err.message || err));
+      let start = page * this._pageSize;
+      let rowSpan = Math.min(this._pageSize, this._rowCount - start);
+      if (rowSpan > 0) {
+        this.emitChanged({
+          type: 'cells-changed',
+          region: 'body',
+          row: start, rowSpan,
+          column: 0, columnSpan: this._keys.length
+        });
+      }
+    });
+  }
+
+  /**
+   * Drop the cached pages, which belong to a previous filter or sort.
+   */
+  private _resetPages(): void {
+    this._generation++;
+    this._pages.clear();
+    this._pendingPages.clear();
+    this._pageErrors.clear();
+  }
+
+  /**
+   * Mark the filtered bins and request the counts under the filters.
+   */
+  private _applyFilters(): void {
+    this._columnStats.forEach((stats, column) => {
+      Private.markFilter(stats, this._columnFilters.get(column) || null);
+    });
+    this._resetPages();
+    this._emitHeaderChange(0, this._keys.length);
+
+    this._updateCounts();
+  }
+
+  /**
+   * Request the row count and the linked bin counts under the filters.
+   *
+   * #### Notes
+   * The counts have their own request counter, since sorting drops the
+   * pages but not the counts. A failed request is shown in the corner
+   * header rather than rejecting the returned promise.
+   */
+  private _updateCounts(): Promise<void> {
+    let request = ++this._countsRequest;
+    let filters = this._filterQuery();
+    return this._query<RemoteTableDataModel.ICountsResponse>({ type: 'counts', filters }).then(counts => {
+      if (request !== this._countsRequest) {
+        return;
+      }
+      this._countsError = null;
+      this._rowCount = counts.rowCount;
+      this._columnStats.forEach((stats, column) => {
+        Private.linkStats(stats, counts.columns[column], filters.length > 0);
+      });
+      this.emitChanged({ type: 'model-reset' });
+    }, err => {
+      if (request !== this._countsRequest) {
+        return;
+      }
+      this._countsError = String(err.message || err);
+      this.emitChanged({
+        type: 'cells-changed',
+        region: 'corner-header',
+        row: 0, rowSpan: 1,
+        column: 0, columnSpan: 1
+      });
+    });
+  }
+
+  /**
+   * Convert the filters of the columns to the backend protocol.
+   */
+  private _filterQuery(): Array<RemoteTableDataModel.IFilter> {
+    let filters: Array<RemoteTableDataModel.IFilter> = [];
+    this._columnFilters.forEach((filter, column) => {
+      let stats = this._columnStats[column];
+      let toBins = (bitsets: Array<TypedFastBitSet>) => bitsets.map(bitset => {
+        return (bitset === stats.nullBin.bitset) ? -1 : stats.bins.findIndex(bin => bin.bitset === bitset);
+      });
+      filters.push({
+        column,
+        include: (filter.include === null) ? null : toBins(filter.include),
+        exclude: toBins(filter.exclude),
+        range: filter.range
+      });
+    });
+    return filters;
+  }
+
+  /**
+   * Signal the changes of header cells of the first header row.
+   */
+  private _emitHeaderChange(column: number, columnSpan = 1): void {
+    this.emitChanged({
+      type: 'cells-changed',
+      region: 'column-header',
+      row: 0, rowSpan: 1,
+      column, columnSpan
+    });
+  }
+
+  /**
+   * Send a query to the backend.
+   */
+  private _query<T>(query: RemoteTableDataModel.Query): Promise<T> {
+    return fetch(this._url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(query)
+    }).then(response => response.json()).then(result => {
+      if (result.error !== undefined) {
+        throw new Error(result.error);
+      }
+      return result as T;
+    });
+  }
+
+  private _url: string;
+  private _pageSize: number;
+  private _pages: Private.PageCache;
+  private _pendingPages = new Set<number>();
+  private _generation = 0;
+  private _pageErrors = new Map<number, string>();
+  private _countsRequest = 0;
+  private _countsError: string | null = null;
+
+  private _keys: Array<string> = [];
+  private _types: Array<string> = [];
+  private _totalCount = 0;
+  private _rowCount = 0;
+  private _columnStats: Array<ColumnStats> = [];
+  private _columnFilters = new Map<number, Private.IFilterBins>();
+  private _sortKeys: Array<SortKey> = [];
+
+  private _hoveredBin: { column: number, bin: number | 'null' } = { column: -1, bin: -1 };
+  private _brush: { column: number, start: number, end: number } | null = null;
+}
+
+
+/**
+ * The namespace for the `RemoteTableDataModel` class statics.
+ */
+export
+namespace RemoteTableDataModel {
+  /**
+   * An options object for initializing a remote table data model.
+   */
+  export
+  interface IOptions {
+    /**
+     * The URL the queries are posted to.
+     */
+    url: string;
+
+    /**
+     * The number of body rows fetched at once.
+     *
+     * The default is `200`.
+     */
+    pageSize?: number;
+
+    /**
+     * The number of pages of body rows kept in the cache.
+     *
+     * The default is `50`.
+     */
+    cacheSize?: number;
+  }
+
+  /**
+   * The filter of a column in a query.
+   */
+  export
+  interface IFilter {
+    /**
+     * The filtered column.
+     */
+    column: number;
+
+    /**
+     * The included bins, or `null` to include all the bins. The missing
+     * values are bin `-1`.
+     */
+    include: Array<number> | null;
+
+    /**
+     * The excluded bins.
+     */
+    exclude: Array<number>;
+
+    /**
+     * The value range the column is filtered by, if any.
+     */
+    range?: [number, number];
+  }
+
+  /**
+   * A query of the backend protocol.
+   */
+  export
+  type Query = (
+    { type: 'schema' } |
+    { type: 'stats' } |
+    { type: 'counts', filters: Array<IFilter> } |
+    { type: 'rows', filters: Array<IFilter>, sort: Array<SortKey>, offset: number, limit: number }
+  );
+
+  /**
+   * The response to a `'schema'` query.
+   */
+  export
+  interface ISchemaResponse {
+    keys: Array<string>;
+    types: Array<string>;
+    rowCount: number;
+  }
+
+  /**
+   * The histogram of a column in a `'stats'` response.
+   */
+  export
+  interface IColumnHistogram {
+    desc: string;
+    min?: number;
+    max?: number;
+    nullCount: number;
+    bins: Array<{ label: string, count: number, min?: number, max?: number }>;
+  }
+
+  /**
+   * The response to a `'stats'` query.
+   */
+  export
+  interface IStatsResponse {
+    columns: Array<IColumnHistogram>;
+  }
+
+  /**
+   * The linked bin counts of a column in a `'counts'` response.
+   */
+  export
+  interface IColumnCounts {
+    bins: Array<number>;
+    nullCount: number;
+  }
+
+  /**
+   * The response to a `'counts'` query.
+   */
+  export
+  interface ICountsResponse {
+    rowCount: number;
+    columns: Array<IColumnCounts>;
+  }
+
+  /**
+   * The response to a `'rows'` query.
+   */
+  export
+  interface IRowsResponse {
+    rows: Array<Array<any>>;
+  }
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The bins a column is filtered by, as the stand-in bitsets of the bins.
+   */
+  export
+  interface IFilterBins {
+    include: Array<TypedFastBitSet> | null;
+    exclude: Array<TypedFastBitSet>;
+    range?: [number, number];
+  }
+
+  /**
+   * A bitset standing in for the rows of a remote bin, which only knows
+   * the number of rows.
+   */
+  export
+  class CountBitSet extends TypedFastBitSet {
+    constructor(size: number) {
+      super();
+      this._size = size;
+    }
+
+    size(): number {
+      return this._size;
+    }
+
+    private _size: number;
+  }
+
+  /**
+   * A least recently used cache of pages of body rows.
+   */
+  export
+  class PageCache {
+    constructor(capacity: number) {
+      this._capacity = capacity;
+    }
+
+    get(page: number): Array<Array<any>> | undefined {
+      let rows = this._pages.get(page);
+      if (rows !== undefined) {
+        // Move the page to the most recently used end.
+        this._pages.delete(page);
+        this._pages.set(page, rows);
+      }
+      return rows;
+    }
+
+    set(page: number, rows: Array<Array<any>>): void {
+      this._pages.delete(page);
+      this._pages.set(page, rows);
+      if (this._pages.size > this._capacity) {
+        this._pages.delete(this._pages.keys().next().value);
+      }
+    }
+
+    clear(): void {
+      this._pages.clear();
+    }
+
+    private _capacity: number;
+    private _pages = new Map<number, Array<Array<any>>>();
+  }
+
+  /**
+   * Create the placeholder statistics of a column being loaded.
+   */
+  export
+  function pendingStats(header: string, total: number): ColumnStats {
+    return {
+      header: header,
+      totalCount: total,
+      maxBinCount: 0,
+      hoveredBin: -1,
+      nullBin: createBin('Missing values', 0),
+      bins: [],
+      isLinked: false,
+      isComputing: true,
+      desc: '',
+      extra: ''
+    };
+  }
+
+  /**
+   * Create the statistics of a column from its histogram.
+   */
+  export
+  function createStats(header: string, histogram: RemoteTableDataModel.IColumnHistogram, total: number): ColumnStats {
+    let bins = histogram.bins.map(bin => {
+      let columnBin = createBin(bin.label, bin.count);
+      if (bin.min !== undefined && bin.max !== undefined) {
+        columnBin.min = bin.min;
+        columnBin.max = bin.max;
+      }
+      return columnBin;
+    });
+
+    let maxBinCount = 0;
+    for (let bin of bins) {
+      maxBinCount = Math.max(maxBinCount, bin.count);
+    }
+
+    return {
+      header: header,
+      totalCount: total,
+      maxBinCount: maxBinCount,
+      hoveredBin: -1,
+      nullBin: createBin('Missing values', histogram.nullCount),
+      bins: bins,
+      isLinked: false,
+      isComputing: false,
+      desc: histogram.desc,
+      extra: '',
+      min: histogram.min,
+      max: histogram.max
+    };
+  }
+
+  /**
+   * Create a bin with stand-in bitsets.
+   */
+  function createBin(label: string, count: number): ColumnBin {
+    return { label, count, bitset: new CountBitSet(count), linked: new CountBitSet(count) };
+  }
+
+  /**
+   * Mark the bins a column is filtered by.
+   */
+  export
+  function markFilter(stats: ColumnStats, filter: IFilterBins | null): void {
+    let include = (filter && filter.include) || [];
+    let exclude = filter ? filter.exclude : [];
+    let range = filter && filter.range;
+
+    for (let bin of [stats.nullBin, ...stats.bins]) {
+      if (range && bin.min !== undefined && bin.min >= range[0] && bin.max! <= range[1]) {
+        bin.filter = 'include';
+      } else if (include.indexOf(bin.bitset) >= 0) {
+        bin.filter = 'include';
+      } else if (exclude.indexOf(bin.bitset) >= 0) {
+        bin.filter = 'exclude';
+      } else {
+        delete bin.filter;
+      }
+    }
+  }
+
+  /**
+   * Set the linked counts of the bins of a column.
+   */
+  export
+  function linkStats(stats: ColumnStats, counts: RemoteTableDataModel.IColumnCounts | undefined, isLinked: boolean): void {
+    if (counts === undefined || stats.isComputing) {
+      return;
+    }
+    stats.bins.forEach((bin, i) => {
+      bin.linked = new CountBitSet(counts.bins[i] || 0);
+    });
+    stats.nullBin.linked = new CountBitSet(counts.nullCount);
+    stats.isLinked = isLinked;
+  }
+
+  /**
+   * Format a value range of a numeric or temporal column.
+   */
+  export
+  function formatRange(min: number, max: number, type: string): string {
+    let temporal = type === 'date' || type === 'datetime';
+    let format = (value: number) => temporal ? formatValue(new Date(value), type) : String(value);
+    return (min === max) ? format(min) : `${format(min)} – ${format(max)}`;
+  }
+}
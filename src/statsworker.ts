@@ -0,0 +1,30 @@
+/*-----------------------------------------------------------------------------
+| The entry point of the web worker computing the column statistics.
+|
+| Each message is a `StatsRequest` and is answered with a `StatsResult`,
+| with the bitset words of the result transferred back to the page.
+|----------------------------------------------------------------------------*/
+import {
+  StatsRequest, StatsResult, computeStats, transferables
+} from './columnstats';
+
+
+/**
+ * The part of the worker global scope used by the worker.
+ *
+ * #### Notes
+ * The project compiles against the DOM library, where `self` is typed as
+ * a window, hence the cast through `unknown`.
+ */
+interface IWorkerScope {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage(message: StatsResult, transfer: Transferable[]): void;
+}
+
+
+const context = self as unknown as IWorkerScope;
+
+context.onmessage = (event: MessageEvent) => {
+  let result = computeStats(event.data as StatsRequest);
+  context.postMessage(result, transferables(result));
+};
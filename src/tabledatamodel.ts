@@ -1,10 +1,41 @@
 
 import {
-  DataModel, MutableDataModel,
+  CellRenderer, DataModel, MutableDataModel, TextRenderer
 } from '@lumino/datagrid';
 
+import {
+  DataType, Table, Type
+} from 'apache-arrow';
+
 import TypedFastBitSet = require('typedfastbitset');
 
+import {
+  ColumnProfile, ColumnProfiles, computeProfile
+} from './columnprofile';
+
+import {
+  ColumnVector, DictionaryColumn, NumericColumn, RowComparator, allRows,
+  encodeColumn, maskValues, rowComparator, selectMatches, selectNulls, selectNumbers,
+  selectRange
+} from './columnstore';
+
+import {
+  StatsRequest, StatsResult, TimeUnit, binIndex, computeStats, textLength,
+  toTime
+} from './columnstats';
+
+import {
+  CompiledExpression, compileExpression
+} from './expression';
+
+import {
+  FilterExpression, parseFilter, selectFilter
+} from './filterparser';
+
+import {
+  formatValue, parseValue
+} from './valueparser';
+
 
 export
 interface ColumnBin {
@@ -12,6 +43,9 @@ interface ColumnBin {
   count: number;
   bitset: TypedFastBitSet;
   linked: TypedFastBitSet;
+  filter?: 'include' | 'exclude';
+  min?: number;
+  max?: number;
 }
 
 export
@@ -20,30 +54,162 @@ interface ColumnStats {
   totalCount: number;
   maxBinCount: number;
   hoveredBin: number;
+  brushedBins?: [number, number];
   nullBin: ColumnBin;
   bins: Array<ColumnBin>;
   isLinked: boolean;
+  isComputing: boolean;
   desc: string;
   extra: string;
   min?: number;
   max?: number;
+
+  /**
+   * The number of distinct values in the last, "Other" bin of a string
+   * column limited to its most frequent values.
+   */
+  otherCount?: number;
+
+  /**
+   * Whether the bins of a string column are ranges of its text lengths,
+   * as its values are mostly unique.
+   */
+  byLength?: boolean;
+}
+
+
+/**
+ * A type alias for the order of a sorted column.
+ */
+export
+type SortOrder = 'asc' | 'desc';
+
+
+/**
+ * A column the body rows are sorted by.
+ */
+export
+interface SortKey {
+  column: number;
+  order: SortOrder;
+}
+
+
+/**
+ * A data model browsed through the histograms of its column headers.
+ *
+ * The grid renderers and handlers work against this interface, which is
+ * implemented by the in-memory `TableDataModel` and by the server backed
+ * `RemoteTableDataModel`. The `'column-header'` data of the first header
+ * row is the `ColumnStats` of the column.
+ */
+export
+interface BrowsableDataModel extends MutableDataModel {
+  /**
+   * Get the column of the data shown in a column of a grid region, or
+   * `-1` for a column without data.
+   *
+   * The other methods of the interface take columns of the data.
+   */
+  dataColumn(region: DataModel.CellRegion, column: number): number;
+
+  /**
+   * Get the statistics of a column.
+   */
+  columnStats(column: number): ColumnStats;
+
+  /**
+   * Move a shown column to another position of the view, if the model
+   * supports reordering its columns.
+   */
+  moveColumn?(column: number, index: number): void;
+
+  /**
+   * Set the histogram bin under the mouse, or `-1` for none.
+   */
+  setHoveredBin(column: number, bin: number | 'null'): void;
+
+  /**
+   * Toggle a histogram bin in the filter of a column, or clear the
+   * filters of all the columns for a `null` bitset.
+   */
+  filterBin(column: number, bitset: TypedFastBitSet | null, isNew: boolean, exclude?: boolean): void;
+
+  /**
+   * Filter the rows by a value range of a numeric or temporal column.
+   */
+  filterRange(column: number, min: number, max: number): void;
+
+  /**
+   * Set the histogram bins highlighted while brushing a column.
+   */
+  setBrushedBins(column: number, bins: [number, number] | null): void;
+
+  /**
+   * Cycle the sort order of a column through ascending, descending and none.
+   */
+  cycleSort(column: number, additive: boolean): void;
+
+  /**
+   * Get the tooltip of a cell.
+   */
+  tooltip(region: DataModel.CellRegion, row: number, column: number): any;
+
+  /**
+   * Get the error of the quick filter of a column, or `null`.
+   */
+  filterError(column: number): string | null;
+
+  /**
+   * Get the error of the text typed into a body cell, or `null`.
+   */
+  editError(column: number, text: string): string | null;
+
+  /**
+   * Undo the last edit of a body cell.
+   */
+  undo(): void;
+
+  /**
+   * Redo the last undone edit of a body cell.
+   */
+  redo(): void;
 }
 
 
 export
-class TableDataModel extends MutableDataModel {
+class TableDataModel extends MutableDataModel implements BrowsableDataModel {
+  /**
+   * Construct a new table data model.
+   *
+   * @param options - The options for initializing the data model.
+   */
+  constructor(options: TableDataModel.IOptions = {}) {
+    super();
+    this._statsWorker = options.statsWorker || null;
+    this._maxCategories = options.maxCategories || 30;
+    this._uniqueRatio = (options.uniqueRatio === undefined) ? 0.5 : options.uniqueRatio;
+    this._missingValues = new Set(options.missingValues || Private.defaultMissingValues);
+  }
+
+  /**
+   * Create a table data model from an Arrow IPC file or stream.
+   *
+   * @param source - The bytes of the Arrow file or stream.
+   *
+   * @param options - The options for initializing the data model.
+   */
+  static fromArrow(source: ArrayBuffer | Uint8Array, options: TableDataModel.IOptions = {}): TableDataModel {
+    let model = new TableDataModel(options);
+    let bytes = (source instanceof Uint8Array) ? source : new Uint8Array(source);
+    model.setArrowTable(Table.from(bytes));
+    return model;
+  }
 
   setHoveredBin(column: number, bin: number | 'null'): void {
     if (column !== this._hoveredBin.column) {
       // Reset old column
-      this.emitChanged({
-        type: 'cells-changed',
-        region: 'column-header',
-        row: 0,
-        column: this._hoveredBin.column,
-        rowSpan: 1,
-        columnSpan: 1
-      });
+      this._emitColumnChange(this._hoveredBin.column, 0);
     }
 
     if (column != this._hoveredBin.column || bin !== this._hoveredBin.bin) {
@@ -52,328 +218,2783 @@ class TableDataModel extends MutableDataModel {
         bin: bin
       }
 
-      this.emitChanged({
-        type: 'cells-changed',
-        region: 'column-header',
-        row: 0,
-        column: column,
-        rowSpan: 1,
-        columnSpan: 1
-      });
+      this._emitColumnChange(column, 0);
     }
   }
 
-  filterBin(bitset: TypedFastBitSet | null, isNew: boolean): void {
-    if (bitset !== null) {
-      if (this._currentBitset === null || isNew) {
-        this._currentBitset = bitset.clone()
-      } else if (!isNew) {
-        this._currentBitset.union(bitset);
-      } 
+  /**
+   * Filter the rows by a bin of a column.
+   *
+   * @param column - The column of the bin.
+   *
+   * @param bitset - The rows of the bin, or `null` to clear the filters
+   *   of all the columns and the kept or excluded rows.
+   *
+   * @param isNew - Whether to replace the filter of the column, rather
+   *   than toggle the bin in it.
+   *
+   * @param exclude - Whether to exclude the rows of the bin, rather than
+   *   include them.
+   *
+   * #### Notes
+   * The included bins of a column are combined with OR, and the filters
+   * of the columns with AND. The linked bins of each column are computed
+   * against the filters of the other columns only.
+   */
+  filterBin(column: number, bitset: TypedFastBitSet | null, isNew: boolean, exclude = false): void {
+    if (bitset === null) {
+      this._columnFilters.clear();
+      this._rowFilter = null;
+      this._applyFilters();
+      return;
+    }
+
+    let current = isNew ? undefined : this._columnFilters.get(column);
+    let included = (current && current.include) ? current.include.slice() : [];
+    let excluded = current ? current.exclude.slice() : [];
 
-      let bs = this._currentBitset;
-      this._filteredSet = bs.array();
+    let includeIndex = included.indexOf(bitset);
+    let excludeIndex = excluded.indexOf(bitset);
+    if (includeIndex >= 0) {
+      included.splice(includeIndex, 1);
+    }
+    if (excludeIndex >= 0) {
+      excluded.splice(excludeIndex, 1);
+    }
 
-      for (let columnStat of this._columnStats) {
-        columnStat.isLinked = true;
-        let nullBin = columnStat.nullBin;
-        nullBin.linked = bs.clone();
+    // Toggle the bin off when it is clicked again with the same modifier.
+    if (exclude && excludeIndex < 0) {
+      excluded.push(bitset);
+    } else if (!exclude && includeIndex < 0) {
+      included.push(bitset);
+    }
 
-        for (let columnBin of columnStat.bins) {
-          //columnBin.linked = bin.bitset.new_intersection(columnBin.bitset);
-          columnBin.linked.words.set(columnBin.bitset.words);
-          columnBin.linked.intersection(bs);
-        }
-      }
+    if (included.length === 0 && excluded.length === 0) {
+      this._setColumnFilter(column, null);
     } else {
-      this._filteredSet = null;
-      this._currentBitset = null;
-      for (let columnStat of this._columnStats) {
-        columnStat.isLinked = false;
-        /*for (let columnBin of columnStat.bins) {
-          columnBin.linked = null;
-        }*/
-      }
+      this._setColumnFilter(column, {
+        include: (included.length > 0) ? included : null,
+        exclude: excluded
+      });
     }
+  }
 
-    this.emitChanged({
-      type: 'model-reset'
+  /**
+   * Filter the rows by a value range of a numeric or temporal column.
+   *
+   * @param column - The column to filter.
+   *
+   * @param min - The inclusive lower bound of the range.
+   *
+   * @param max - The upper bound of the range. It is inclusive when it
+   *   reaches the maximum of the column.
+   *
+   * #### Notes
+   * The range replaces the filter of the column.
+   */
+  filterRange(column: number, min: number, max: number): void {
+    let stats = this._columnStats[column];
+    let closed = stats.max !== undefined && max >= stats.max;
+    this._setColumnFilter(column, {
+      include: null,
+      exclude: [],
+      range: [min, max],
+      select: (values, type) => selectRange(values, type, min, max, closed, this.missingTest(column))
     });
   }
 
-  setRawData(data: Array<Array<any>>, keys: Array<string>, types: Array<string>): void {
-    this._data = data;
-    this._types = types;
+  /**
+   * Filter the rows to some body rows.
+   *
+   * @param rows - The indices of the rows in the body, after filtering
+   *   and sorting.
+   *
+   * #### Notes
+   * The rows are kept by their index in the data, so they stay kept when
+   * the other filters change. The kept rows are combined with the column
+   * filters with AND, and are cleared with the filters of the columns.
+   */
+  keepRows(rows: Array<number>): void {
+    let kept = new TypedFastBitSet();
+    for (let row of rows) {
+      kept.add(this.dataRow(row));
+    }
+
+    let current = this._rowFilter;
+    if (current !== null && current.kept !== null) {
+      kept.intersection(current.kept);
+    }
+    this._setRowFilter(kept, (current === null) ? new TypedFastBitSet() : current.excluded);
+  }
+
+  /**
+   * Filter out some body rows.
+   *
+   * @param rows - The indices of the rows in the body, after filtering
+   *   and sorting.
+   *
+   * #### Notes
+   * The rows are excluded by their index in the data, so the appended
+   * rows are not excluded.
+   */
+  excludeRows(rows: Array<number>): void {
+    let current = this._rowFilter;
+    let excluded = (current === null) ? new TypedFastBitSet() : current.excluded.clone();
+    for (let row of rows) {
+      excluded.add(this.dataRow(row));
+    }
+    this._setRowFilter((current === null) ? null : current.kept, excluded);
+  }
+
+  /**
+   * Set the histogram bins highlighted while brushing a column.
+   *
+   * @param column - The column being brushed.
+   *
+   * @param bins - The first and last brushed bin, in either order, or
+   *   `null` to end the brush.
+   */
+  setBrushedBins(column: number, bins: [number, number] | null): void {
+    this._brush = (bins === null) ? null : {
+      column: column,
+      start: Math.min(bins[0], bins[1]),
+      end: Math.max(bins[0], bins[1])
+    };
+
+    this._emitColumnChange(column, 0);
+  }
 
-    this._columnStats = [];
-    let total = data.length;
+  /**
+   * The columns the body rows are sorted by, from primary to last key.
+   */
+  get sortKeys(): ReadonlyArray<SortKey> {
+    return this._sortKeys;
+  }
 
-    let desc: string;
+  /**
+   * Cycle the sort order of a column through ascending, descending and none.
+   *
+   * @param column - The column to sort by.
+   *
+   * @param additive - Whether to keep the other sort keys. A column which
+   *   is not sorted yet is then added as the last key.
+   *
+   * #### Notes
+   * Rows with a missing value are sorted last in either order, and rows
+   * with equal values keep their order in the data.
+   */
+  cycleSort(column: number, additive: boolean): void {
+    let index = this._sortKeys.findIndex(key => key.column === column);
+    let current = (index < 0) ? null : this._sortKeys[index].order;
+    let next: SortOrder | null = (current === null) ? 'asc' : (current === 'asc') ? 'desc' : null;
 
+    if (!additive) {
+      this._sortKeys = (next === null) ? [] : [{ column, order: next }];
+    } else if (index < 0) {
+      this._sortKeys.push({ column, order: next! });
+    } else if (next === null) {
+      this._sortKeys.splice(index, 1);
+    } else {
+      this._sortKeys[index] = { column, order: next };
+    }
 
-    for (let column = 0; column < keys.length; column++) {
+    this._updateRows();
+    this.emitChanged({ type: 'model-reset' });
+  }
 
-      let header = keys[column];
-      let type = types[column];
+  setRawData(data: Array<Array<any>>, keys: Array<string>, types: Array<string>): void {
+    let columns = keys.map((key, column) => encodeColumn(Private.rowColumn(data, column), types[column]));
+    this.setColumns(columns, keys, types, data.length);
+  }
 
-      let nullCount = 0;
-      let nullBitset = new TypedFastBitSet();
-      let maxBinCount = 0;
-      let min, max;
+  /**
+   * Set the model data from an Arrow table.
+   *
+   * The Arrow columns are read directly, without copying them into rows.
+   */
+  setArrowTable(table: Table): void {
+    let keys: Array<string> = [];
+    let types: Array<string> = [];
+    let columns: Array<ColumnVector> = [];
 
-      let counts = new Map<string, TypedFastBitSet>();
+    for (let i = 0; i < table.numCols; i++) {
+      let vector = table.getColumnAt(i)!;
+      let type = Private.arrowType(vector.type);
 
-      for (let j = 0; j < total; j++) {
-        let val = data[j][column];
+      keys.push(table.schema.fields[i].name);
+      types.push(type);
+      columns.push(Private.arrowColumn(vector, type));
+    }
 
-        if (val === null) {
-          nullBitset.add(j);
-          nullCount += 1;
-          continue;
-        }
+    this.setColumns(columns, keys, types, table.length);
+  }
 
-        if (type === 'float' || type === 'integer') {
-          if (min === undefined) {
-            min = val;
-          } else {
-            min = Math.min(min, val);
-          }
-          if (max === undefined) {
-            max = val;
-          } else {
-            max = Math.max(max, val);
-          }
-        } else if (type === 'string' || type === 'boolean') {
-          let v = val as string;
-          let count = counts.get(v) || new TypedFastBitSet();
-          count.add(j);
-          counts.set(v, count);
-        }
-      }
+  /**
+   * Set the model data from a list of column vectors.
+   *
+   * When the model has a stats worker, the column statistics are computed
+   * in the worker and the column headers show a computing state until the
+   * statistics of each column arrive.
+   */
+  setColumns(columns: Array<ColumnVector>, keys: Array<string>, types: Array<string>, total: number): void {
+    this._columns = columns;
+    this._keys = keys;
+    this._types = types;
+    this._rowCount = total;
 
-      let bins: Array<ColumnBin> = [];
-      for (let [key, value] of counts) {
-        value.trim()
-        bins.push({ label: key, bitset: value, count: value.size(), linked: value.clone() });
-        maxBinCount = Math.max(value.size(), maxBinCount);
-      }
+    this._filteredSet = null;
+    this._viewRows = null;
+    this._currentBitset = null;
+    this._columnFilters.clear();
+    this._rowFilter = null;
+    this._columnOrder = keys.map((key, column) => column);
+    this._pinnedCount = 0;
+    this._keyColumn = -1;
+    this._quickFilters[0].clear();
+    this._quickFilters[1].clear();
+    this._filterErrors.clear();
+    this._searchRows = null;
+    this._searchTest = null;
+    this._sortKeys = [];
+    this._pendingStats.clear();
+    this._undoStack = [];
+    this._redoStack = [];
+    this._savedValues.clear();
+    this._computed.clear();
+    this._profiles.clear();
+    this._filteredProfiles.clear();
 
-      // Second pass
-      if (min === max) {
-        desc = String(min);
-      } else {
-        desc = `${min} \u2013 ${max}`;
-      }
-
-      switch (type) {
-        case 'float':
-        case 'integer': {
-          // Add intermediate bins
-          if (max === min) {
-            let count = counts.get(max) || new TypedFastBitSet();
-            for (let i = 0; i < total; ++i) {
-              count.add(i);
-            }
-            counts.set(max, count);
-          } else {
-            let diff = max - min;
-            // Bin by order of magnitude
-            let power = Math.floor(Math.log(diff)/Math.LN10);
-            let div = Math.pow(10, power);
-
-            if (type !== 'integer' && power === 0) {
-              let subbin = diff / div;
-              if (subbin <= 2.) {
-                div /= 5;
-                power = Math.floor(Math.log(div) / Math.LN10);
-              } else if (subbin <= 5.) {
-                div /= 2;
-                power = Math.floor(Math.log(div) / Math.LN10);
-              }
-            }
-            //if
-          }
+    this._columnMissingValues.clear();
 
-        }
-        break;
-        case 'string':{
-          // reorder counts
-          bins.sort((a, b) => b.count - a.count);
-          desc = `${bins.length} Categor` + ((bins.length > 1) ? 'ies' : 'y');
-        }
-        break;
-      }
-
-      this._columnStats.push({
-        header: header,
-        totalCount: total,
-        maxBinCount: maxBinCount,
-        hoveredBin: -1,
-        nullBin: {
-          label: 'Missing values',
-          bitset: nullBitset,
-          count: nullCount,
-          linked: nullBitset.clone()
-        },
-        bins: bins,
-        isLinked: false,
-        desc: desc,
-        extra: "",
-        min: min,
-        max: max
+    // Build the requests one column at a time, as a request may hold a
+    // copy of its column.
+    let worker = this._getWorker();
+    if (worker === null) {
+      this._columnStats = columns.map((values, column) => {
+        let request = this._statsRequest(column);
+        return this._createStats(request, computeStats(request));
       });
+      this.emitChanged({ type: 'model-reset' });
+      return;
     }
 
+    this._columnStats = keys.map(key => Private.pendingStats(key, total));
     this.emitChanged({ type: 'model-reset' });
-  }
 
-  rowCount(region: DataModel.RowRegion): number {
-    if (region === 'body') {
-      return (this._filteredSet === null) ? this._data.length : this._filteredSet.length;
-    } else if (region === 'column-header') {
-      return 2;
-    } else {
-      return 0;
+    for (let column = 0; column < columns.length; column++) {
+      this._postStats(worker, this._statsRequest(column));
     }
   }
 
-  columnCount(region: DataModel.ColumnRegion): number {
-    return region === 'body' ? this._columnStats.length : 1;
-  }
+  /**
+   * Append rows to the model.
+   *
+   * @param data - The rows to append, with one value per column and
+   *   `null` for missing values.
+   *
+   * #### Notes
+   * The column statistics are updated in place. A numeric or temporal
+   * column is only rebinned when a new value falls outside of its bin
+   * edges. The filters, search and sort are applied to the new rows, and
+   * the new visible rows are signaled with a `'rows-inserted'` change.
+   */
+  appendRows(data: Array<Array<any>>): void {
+    if (data.length === 0) {
+      return;
+    }
 
-  data(region: DataModel.CellRegion, row: number, column: number): any {
-    if (region === 'corner-header' && row === 0) {
-      return this.rowCount('body');
-    } else if (region === 'row-header') {
-      return row + 1;
-    } else if (region === 'column-header') {
-      if (row === 1) {
-        return this._quickFilters[1].get(column) || null;
-      }
-      if (column == this._hoveredBin.column && this._hoveredBin.bin !== -1) {
-        let columnStat = this._columnStats[column];
-        let bin = this._hoveredBin.bin;
-        let frac: number, count: number;
-        let extra: string, desc: string;
+    let start = this._rowCount;
+    let viewStart = this.rowCount('body');
 
-        let columnBin: ColumnBin;
+    for (let column = 0; column < this._columns.length; column++) {
+      let expression = this._computed.get(column);
+      let values = (expression === undefined) ? data.map(row => row[column]) :
+        data.map((row, i) => expression!.evaluate(this._columns, start + i));
+      this._storedColumn(column).append(values);
+    }
+    this._rowCount += data.length;
 
-        if (bin === 'null') {
-          columnBin = columnStat.nullBin;
-        } else {
-          columnBin = columnStat.bins[bin];
-        }
-        desc = columnBin.label;
-        if (columnStat.isLinked) {
-          count = columnBin.linked.size();
-          frac = 100 * (count / columnBin.count);
-          extra = ` (${count}/${columnBin.count} - ${frac.toFixed(1)}%)`
-        } else {
-          count = columnBin.count;
-          frac = 100 * (count / this._data.length);
-          extra = ` (${count} - ${frac.toFixed(1)}%)`
-        }
-        return { ...this._columnStats[column], desc: desc, extra: extra, hoveredBin: bin};
+    for (let column = 0; column < this._columns.length; column++) {
+      let stats = this._columnStats[column];
+      if (!Private.appendStats(stats, this._columns[column], this._types[column], start, this.missingTest(column))) {
+        this._rebinColumn(column);
       }
-      return this._columnStats[column];
     }
-    else if (region === 'body') {
-      if (this._filteredSet !== null) {
-        row = this._filteredSet[row];
-      }
-      return this._data[row][column];
+
+    // Evaluate the filters and the search on the new rows.
+    this._refreshFilters();
+
+    let viewEnd = this.rowCount('body');
+    if (viewEnd > viewStart) {
+      this.emitChanged({
+        type: 'rows-inserted',
+        region: 'body',
+        index: viewStart,
+        span: viewEnd - viewStart
+      });
     }
+
+    // The new rows are sorted in between the old rows.
+    if (this._sortKeys.length > 0 && viewStart > 0) {
+      this._emitBodyChanges(viewEnd);
+    }
+
+    this._emitHeaderChanges();
   }
 
-  tooltip(region: DataModel.CellRegion, row: number, column: number): any {
-    if (this._filteredSet !== null) {
-      row = this._filteredSet[row];
+  /**
+   * Replace the values of rows of the model.
+   *
+   * @param rows - The indices of the rows in the data, without duplicates.
+   *
+   * @param data - The new values of each row, with one value per column
+   *   and `null` for missing values.
+   *
+   * #### Notes
+   * The column statistics are updated in place, as for appended rows.
+   * The filters, search and sort are applied to the new values.
+   */
+  updateRows(rows: Array<number>, data: Array<Array<any>>): void {
+    if (rows.length === 0) {
+      return;
     }
-    let dataRow = this._data[row];
 
-    let tooltip = [];
-    for (let i = 0; i < this._columnStats.length; ++i) {
-      let field = [this._columnStats[i].header, dataRow[i]];
-      tooltip.push(field);
+    let viewCount = this.rowCount('body');
+
+    for (let column = 0; column < this._columns.length; column++) {
+      let expression = this._computed.get(column);
+      let values = (expression === undefined) ? data.map(row => row[column]) :
+        rows.map(row => expression!.evaluate(this._columns, row));
+      this._updateColumn(column, rows, values);
     }
 
-    return tooltip;
+    this._refreshFilters();
+    this._emitRowChanges(viewCount);
   }
 
-  metadata(region: DataModel.CellRegion, row: number, column: number): DataModel.Metadata {
-    return { 'type': this._types[column] };
-  }
+  /**
+   * Remove rows from the model.
+   *
+   * @param rows - The indices of the rows in the data.
+   *
+   * #### Notes
+   * The rows below the removed rows move up, so their indices change.
+   * The removed rows are taken out of the column statistics and the
+   * visible rows removed are signaled with `'rows-removed'` changes.
+   */
+  removeRows(rows: Array<number>): void {
+    let removed = new TypedFastBitSet();
+    for (let row of rows) {
+      if (row >= 0 && row < this._rowCount) {
+        removed.add(row);
+      }
+    }
+    if (removed.size() === 0) {
+      return;
+    }
 
-  setData(region: DataModel.CellRegion, row: number, column: number, value: any): boolean {
-    if (region === 'corner-header' || region === 'column-header') {
-      let quickFilter = (region === 'corner-header') ? this._quickFilters[0] : this._quickFilters[1];
+    // Find the visible rows being removed, before the rows move.
+    let viewRows: Array<number> = [];
+    let viewCount = this.rowCount('body');
+    for (let i = 0; i < viewCount; i++) {
+      let row = (this._filteredSet === null) ? i : this._filteredSet[i];
+      if (removed.has(row)) {
+        viewRows.push(i);
+      }
+    }
 
-      if (value !== '') {
-        quickFilter.set(column, value);
+    // Map the index of each remaining row to its new index.
+    let moved = new Int32Array(this._rowCount);
+    let index = 0;
+    for (let row = 0; row < this._rowCount; row++) {
+      moved[row] = removed.has(row) ? -1 : index++;
+    }
 
-        let bins = this._columnStats[column].bins;
-        let found = false;
-        let val = value.toLowerCase();
-
-        this.filterBin(null, false);
-        for (let i = 0; i < bins.length; i+=1) {
-          let bin = bins[i];
-          if (bin.label.toString().toLowerCase().startsWith(val)) {
-            this.filterBin(bin.bitset, false);
-            found = true;
-            //break;
-          }
-        }
-        if (!found) {
-          this._filteredSet = [];
-          this.emitChanged({
-            type: 'model-reset'
-          });
-        }
-      } else {
-        quickFilter.delete(column);
-        this.filterBin(null, false);
+    for (let column = 0; column < this._columns.length; column++) {
+      this._storedColumn(column).remove(removed);
+    }
+    this._rowCount = index;
+
+    this._columnStats.forEach((stats, column) => {
+      Private.removeStats(stats, this._types[column], moved, index);
+    });
+
+    // The edit history refers to the rows before the removal.
+    this._undoStack = [];
+    this._redoStack = [];
+    this._savedValues.forEach((saved, column) => {
+      this._savedValues.set(column, Private.moveEdits(saved, moved));
+    });
+    if (this._rowFilter !== null) {
+      let { kept, excluded } = this._rowFilter;
+      this._rowFilter.kept = (kept === null) ? null : Private.moveRows(kept, moved);
+      this._rowFilter.excluded = Private.moveRows(excluded, moved);
+    }
+
+    // Pending statistics are for the rows before the removal.
+    let pending = Array.from(this._pendingStats.values(), request => request.column);
+    this._pendingStats.clear();
+    for (let column of pending) {
+      this._rebinColumn(column);
+    }
+
+    this._refreshFilters();
+
+    for (let i = viewRows.length - 1; i >= 0;) {
+      let end = viewRows[i];
+      let start = end;
+      while (i > 0 && viewRows[i - 1] === start - 1) {
+        start = viewRows[--i];
       }
+      i--;
 
       this.emitChanged({
-        type: 'cells-changed',
-        region: region,
-        row: row, rowSpan: 1,
-        column: column, columnSpan: 1
+        type: 'rows-removed',
+        region: 'body',
+        index: start,
+        span: end - start + 1
       });
     }
-    return true;
+
+    this._emitHeaderChanges();
   }
 
-  private _data: Array<Array<any>> = [];
-  private _types: Array<string> = [];
-  private _columnStats: Array<ColumnStats> = [];
+  /**
+   * Add a column computed from an expression over the other columns.
+   *
+   * @param name - The name of the new column.
+   *
+   * @param text - The expression computing the column values, see
+   *   `compileExpression` for the syntax.
+   *
+   * @throws An error if the name is taken or the expression does not
+   *   type check.
+   *
+   * #### Notes
+   * The column type is inferred from the expression. The values are
+   * computed again for the rows which are edited, replaced or appended.
+   */
+  addComputedColumn(name: string, text: string): void {
+    name = name.trim();
+    if (name === '') {
+      throw new Error('Missing column name');
+    }
+    if (this._keys.indexOf(name) >= 0) {
+      throw new Error(`Column "${name}" already exists`);
+    }
+
+    let expression = compileExpression(text, this._keys, this._types,
+      (source, value) => this.missingTest(source)(value));
+
+    let column = this._columns.length;
+    this._columns.push(Private.evaluateColumn(expression, this._columns, this._rowCount));
+    this._keys.push(name);
+    this._types.push(expression.type);
+    this._columnStats.push(Private.pendingStats(name, this._rowCount));
+    this._computed.set(column, expression);
+    this._columnOrder.push(column);
+
+    this._rebinColumn(column);
+    this._linkColumn(column);
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Test whether a column is computed from an expression.
+   *
+   * @param column - The column of interest.
+   */
+  isComputed(column: number): boolean {
+    return this._computed.has(column);
+  }
+
+  /**
+   * The names of the columns.
+   */
+  get columnNames(): ReadonlyArray<string> {
+    return this._keys;
+  }
+
+  /**
+   * The types of the columns.
+   */
+  get columnTypes(): ReadonlyArray<string> {
+    return this._types;
+  }
+
+  /**
+   * The rows passing the filters and the search, or `null` if there is
+   * no filter.
+   */
+  get filteredRows(): TypedFastBitSet | null {
+    return this._currentBitset;
+  }
+
+  /**
+   * Get the rows passing the filters and the search, without the filters
+   * of some columns.
+   *
+   * @param columns - The columns whose filters are left out.
+   *
+   * @returns The rows passing the other filters, or `null` if there is
+   *   no other filter.
+   *
+   * #### Notes
+   * The linked bins of a column are counted under the filters of the
+   * other columns, so the column can show the rows its filter hides.
+   */
+  filteredRowsExcept(columns: ReadonlyArray<number>): TypedFastBitSet | null {
+    let others = this._rowFilters();
+    this._columnFilters.forEach((filter, index) => {
+      if (columns.indexOf(index) < 0) {
+        others.push(filter.rows);
+      }
+    });
+    return Private.intersectRows(others);
+  }
+
+  /**
+   * Get the values of a column.
+   *
+   * @param column - The column of interest.
+   */
+  columnValues(column: number): ColumnVector {
+    return this._columns[column];
+  }
+
+  /**
+   * Get the statistics of a column.
+   *
+   * @param column - The column of interest.
+   */
+  columnStats(column: number): ColumnStats {
+    return this._columnStats[column];
+  }
+
+  /**
+   * Get the profile of a column over all the rows and the filtered rows.
+   *
+   * @param column - The column of interest.
+   *
+   * #### Notes
+   * The profiles are computed on demand and kept until the data or the
+   * filters change.
+   */
+  getColumnProfile(column: number): ColumnProfiles {
+    let all = this._profiles.get(column);
+    if (all === undefined) {
+      all = computeProfile(this._columns[column], this._types[column], null, this.missingTest(column));
+      this._profiles.set(column, all);
+    }
+
+    let filtered: ColumnProfile | null = null;
+    if (this._currentBitset !== null) {
+      filtered = this._filteredProfiles.get(column) || null;
+      if (filtered === null) {
+        filtered = computeProfile(this._columns[column], this._types[column], this._currentBitset.array(),
+          this.missingTest(column));
+        this._filteredProfiles.set(column, filtered);
+      }
+    }
+
+    return { all, filtered };
+  }
+
+  /**
+   * The texts of the values counted as missing in the columns without
+   * rules of their own.
+   */
+  get missingValues(): ReadonlyArray<string> {
+    return Array.from(this._missingValues);
+  }
+
+  /**
+   * Set the texts of the values counted as missing in the columns without
+   * rules of their own.
+   *
+   * @param values - The texts of the missing values. A `null` value is
+   *   always missing.
+   *
+   * #### Notes
+   * The statistics of the affected columns are computed again. The values
+   * themselves are kept, so the rules can be changed back.
+   */
+  setMissingValues(values: Array<string>): void {
+    this._missingValues = new Set(values);
+    let columns = this._keys.map((key, column) => column);
+    this._updateMissing(columns.filter(column => !this._columnMissingValues.has(column)));
+  }
+
+  /**
+   * Get the texts of the values counted as missing in a column.
+   *
+   * @param column - The column of interest.
+   *
+   * @returns The rule of the column, or `null` if it follows the rule of
+   *   the table.
+   */
+  columnMissingValues(column: number): ReadonlyArray<string> | null {
+    let values = this._columnMissingValues.get(column);
+    return (values === undefined) ? null : Array.from(values);
+  }
+
+  /**
+   * Set the texts of the values counted as missing in a column.
+   *
+   * @param column - The column of interest.
+   *
+   * @param values - The texts of the missing values, or `null` to follow
+   *   the rule of the table.
+   */
+  setColumnMissingValues(column: number, values: Array<string> | null): void {
+    if (column < 0 || column >= this._columns.length) {
+      return;
+    }
+    if (values === null) {
+      this._columnMissingValues.delete(column);
+    } else {
+      this._columnMissingValues.set(column, new Set(values));
+    }
+    this._updateMissing([column]);
+  }
+
+  /**
+   * Get the test of the texts of the values counted as missing in a
+   * column, besides `null`.
+   *
+   * @param column - The column of interest.
+   *
+   * @returns The test, which follows later changes of the rules.
+   */
+  missingTest(column: number): (text: string) => boolean {
+    // Look the rule up on each call, it outlives the filters holding it.
+    return (text: string) => (this._columnMissingValues.get(column) || this._missingValues).has(text);
+  }
+
+  /**
+   * The shown columns in view order, starting with the pinned columns.
+   */
+  get columnOrder(): ReadonlyArray<number> {
+    return this._columnOrder;
+  }
+
+  /**
+   * The number of pinned columns, shown next to the row numbers.
+   */
+  get pinnedCount(): number {
+    return this._pinnedCount;
+  }
+
+  /**
+   * Get the column of the data shown in a column of a grid region.
+   *
+   * @param region - The region of the cell.
+   *
+   * @param column - The index of the column in the region.
+   *
+   * @returns The index of the column in the data, or `-1` for the row
+   *   numbers and the search.
+   *
+   * #### Notes
+   * The pinned columns are shown in the row header and corner header
+   * regions, after the row numbers, so they stay in view while the body
+   * scrolls.
+   */
+  dataColumn(region: DataModel.CellRegion, column: number): number {
+    if (region === 'body' || region === 'column-header') {
+      return this._columnOrder[this._pinnedCount + column];
+    }
+    return (column > 0 && column <= this._pinnedCount) ? this._columnOrder[column - 1] : -1;
+  }
+
+  /**
+   * Show or hide a column.
+   *
+   * @param column - The index of the column in the data.
+   *
+   * @param visible - Whether to show the column. A column shown again is
+   *   added after the other columns.
+   *
+   * #### Notes
+   * The filters and the sort keys of a hidden column keep applying.
+   */
+  setColumnVisible(column: number, visible: boolean): void {
+    let index = this._columnOrder.indexOf(column);
+    if (visible === (index >= 0) || column < 0 || column >= this._columns.length) {
+      return;
+    }
+    if (visible) {
+      this._columnOrder.push(column);
+    } else {
+      this._columnOrder.splice(index, 1);
+      if (index < this._pinnedCount) {
+        this._pinnedCount--;
+      }
+    }
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Pin a column next to the row numbers, or unpin it.
+   *
+   * @param column - The index of the column in the data.
+   *
+   * @param pinned - Whether to pin the column. A pinned column is added
+   *   after the other pinned columns, and an unpinned column moves to the
+   *   start of the other columns.
+   *
+   * #### Notes
+   * Pinning a hidden column shows it.
+   */
+  setColumnPinned(column: number, pinned: boolean): void {
+    let index = this._columnOrder.indexOf(column);
+    if (column < 0 || column >= this._columns.length || (index >= 0 && pinned === (index < this._pinnedCount))) {
+      return;
+    }
+    if (index >= 0) {
+      this._columnOrder.splice(index, 1);
+      if (index < this._pinnedCount) {
+        this._pinnedCount--;
+      }
+    }
+    if (pinned) {
+      this._columnOrder.splice(this._pinnedCount++, 0, column);
+    } else {
+      this._columnOrder.splice(this._pinnedCount, 0, column);
+    }
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Move a shown column to another position of the view.
+   *
+   * @param column - The index of the column in the data.
+   *
+   * @param index - The new position of the column in `columnOrder`. It is
+   *   clamped to the pinned or unpinned columns, which the column stays in.
+   */
+  moveColumn(column: number, index: number): void {
+    let current = this._columnOrder.indexOf(column);
+    if (current < 0) {
+      return;
+    }
+    let pinned = current < this._pinnedCount;
+    let first = pinned ? 0 : this._pinnedCount;
+    let last = pinned ? this._pinnedCount - 1 : this._columnOrder.length - 1;
+    index = Math.max(first, Math.min(index, last));
+    if (index === current) {
+      return;
+    }
+    this._columnOrder.splice(current, 1);
+    this._columnOrder.splice(index, 0, column);
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Get the index in the data of a body row.
+   *
+   * @param row - The index of the row in the body, after filtering and
+   *   sorting.
+   */
+  dataRow(row: number): number {
+    return (this._filteredSet === null) ? row : this._filteredSet[row];
+  }
+
+  /**
+   * Get the index in the body of a row of the data.
+   *
+   * @param row - The index of the row in the data.
+   *
+   * @returns The index of the row in the body, after filtering and
+   *   sorting, or `-1` if the row is filtered out.
+   */
+  viewRow(row: number): number {
+    if (this._filteredSet === null) {
+      return (row >= 0 && row < this._rowCount) ? row : -1;
+    }
+    if (row < 0 || row >= this._rowCount) {
+      return -1;
+    }
+
+    // Index the body rows by data row on first use after an update.
+    if (this._viewRows === null) {
+      this._viewRows = new Int32Array(this._rowCount).fill(-1);
+      this._filteredSet.forEach((dataRow, viewRow) => { this._viewRows![dataRow] = viewRow; });
+    }
+    return this._viewRows[row];
+  }
+
+  /**
+   * The column identifying the rows in the row header, or `-1` for the
+   * index of the rows in the data.
+   */
+  get keyColumn(): number {
+    return this._keyColumn;
+  }
+
+  /**
+   * Set the column identifying the rows in the row header.
+   *
+   * @param column - The key column, or `-1` to identify the rows by their
+   *   index in the data.
+   */
+  setKeyColumn(column: number): void {
+    if (column < -1 || column >= this._columns.length || column === this._keyColumn) {
+      return;
+    }
+    this._keyColumn = column;
+    this.emitChanged({
+      type: 'cells-changed',
+      region: 'row-header',
+      row: 0, rowSpan: this.rowCount('body'),
+      column: 0, columnSpan: 1
+    });
+  }
+
+  /**
+   * Get the identifier of a body row.
+   *
+   * @param row - The index of the row in the body, after filtering and
+   *   sorting.
+   *
+   * @returns The value of the key column of the row, or its 1-based index
+   *   in the data, which stay with the row through sorting, filtering and
+   *   appends.
+   */
+  rowId(row: number): any {
+    let dataRow = this.dataRow(row);
+    return (this._keyColumn < 0) ? dataRow + 1 : this._columns[this._keyColumn].get(dataRow);
+  }
+
+  /**
+   * Find a row by its identifier.
+   *
+   * @param id - The text of the identifier shown in the row header.
+   *
+   * @returns The index in the data of the first row with the identifier,
+   *   or `-1` if there is none.
+   */
+  findRow(id: string): number {
+    let text = id.trim();
+    if (this._keyColumn < 0) {
+      let index = Number(text);
+      return (text !== '' && Number.isInteger(index) && index >= 1 && index <= this._rowCount) ? index - 1 : -1;
+    }
+    let type = this._types[this._keyColumn];
+    let rows = selectMatches(this._columns[this._keyColumn], value => value === text, value => formatValue(value, type));
+    return (rows.size() > 0) ? rows.array()[0] : -1;
+  }
+
+  /**
+   * The term the rows are searched for, or an empty string.
+   */
+  get searchTerm(): string {
+    return this._quickFilters[0].get(0) || '';
+  }
+
+  /**
+   * Search the cell values of all the columns for a term.
+   *
+   * @param term - The text to search for, or an empty string to clear
+   *   the search.
+   *
+   * #### Notes
+   * A row matches when the text of any of its values, as shown in its
+   * cell, contains the term, ignoring case. The matching rows are combined
+   * with the column filters with AND, and the matching body cells are
+   * flagged in their metadata.
+   */
+  search(term: string): void {
+    if (term === '') {
+      this._quickFilters[0].delete(0);
+      this._searchRows = null;
+      this._searchTest = null;
+    } else {
+      this._quickFilters[0].set(0, term);
+      this._searchTest = Private.searchTest(term);
+      this._searchRows = this._selectSearch(this._searchTest);
+    }
+
+    this._applyFilters();
+  }
+
+  /**
+   * Get the error of the quick filter of a column.
+   *
+   * @param column - The column of interest.
+   *
+   * @returns The message of the error parsing the quick filter of the
+   *   column, or `null` if it parsed.
+   */
+  filterError(column: number): string | null {
+    return this._filterErrors.get(column) || null;
+  }
+
+  /**
+   * Validate the text of an edited body cell.
+   *
+   * @param column - The column of the cell.
+   *
+   * @param text - The text typed into the cell.
+   *
+   * @returns The message of the error parsing the text as a value of the
+   *   column type, or `null` if it is valid.
+   */
+  editError(column: number, text: string): string | null {
+    if (this._computed.has(column)) {
+      return 'A computed column cannot be edited';
+    }
+    try {
+      parseValue(text, this._types[column]);
+      return null;
+    } catch (err) {
+      return err.message;
+    }
+  }
+
+  /**
+   * Whether there is an edit to undo.
+   */
+  get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  /**
+   * Whether there is an undone edit to redo.
+   */
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /**
+   * Whether any cell differs from its value when the data was last saved.
+   */
+  get isModified(): boolean {
+    for (let saved of this._savedValues.values()) {
+      if (saved.size > 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Undo the last edit of a body cell.
+   */
+  undo(): void {
+    let edit = this._undoStack.pop();
+    if (edit === undefined) {
+      return;
+    }
+    this._redoStack.push(edit);
+    this._editCell(edit.row, edit.column, edit.previous);
+  }
+
+  /**
+   * Redo the last undone edit of a body cell.
+   */
+  redo(): void {
+    let edit = this._redoStack.pop();
+    if (edit === undefined) {
+      return;
+    }
+    this._undoStack.push(edit);
+    this._editCell(edit.row, edit.column, edit.value);
+  }
+
+  /**
+   * Mark the current data as saved, clearing the marks of edited cells.
+   *
+   * #### Notes
+   * The edit history is kept, undoing an edit marks the cell again.
+   */
+  markSaved(): void {
+    this._savedValues.clear();
+    this._emitBodyChanges(this.rowCount('body'));
+  }
+
+  rowCount(region: DataModel.RowRegion): number {
+    if (region === 'body') {
+      return (this._filteredSet === null) ? this._rowCount : this._filteredSet.length;
+    } else if (region === 'column-header') {
+      return 2;
+    } else {
+      return 0;
+    }
+  }
+
+  columnCount(region: DataModel.ColumnRegion): number {
+    if (region === 'body') {
+      return this._columnOrder.length - this._pinnedCount;
+    }
+    return 1 + this._pinnedCount;
+  }
+
+  data(region: DataModel.CellRegion, row: number, column: number): any {
+    let dataColumn = this.dataColumn(region, column);
+    if (dataColumn >= 0) {
+      region = Private.dataRegion(region);
+      column = dataColumn;
+    }
+
+    if (region === 'corner-header' && row === 0) {
+      return this.rowCount('body');
+    } else if (region === 'corner-header') {
+      return this._quickFilters[0].get(0) || null;
+    } else if (region === 'row-header') {
+      // Show the keys as the text they are found by.
+      let id = this.rowId(row);
+      return (this._keyColumn < 0) ? id : formatValue(id, this._types[this._keyColumn]);
+    } else if (region === 'column-header') {
+      if (row === 1) {
+        return this._quickFilters[1].get(column) || null;
+      }
+      if (this._brush !== null && this._brush.column === column) {
+        let columnStat = this._columnStats[column];
+        let { start, end } = this._brush;
+        let count = 0;
+        for (let i = start; i <= end; i++) {
+          count += columnStat.bins[i].count;
+        }
+        let frac = 100 * (count / this._rowCount);
+        return {
+          ...columnStat,
+          brushedBins: [start, end],
+          desc: Private.formatRange(columnStat.bins[start].min!, columnStat.bins[end].max!, this._types[column]),
+          extra: ` (${count} - ${frac.toFixed(1)}%)`
+        };
+      }
+      if (column == this._hoveredBin.column && this._hoveredBin.bin !== -1) {
+        let columnStat = this._columnStats[column];
+        let bin = this._hoveredBin.bin;
+        let frac: number, count: number;
+        let extra: string, desc: string;
+
+        let columnBin: ColumnBin;
+
+        if (bin === 'null') {
+          columnBin = columnStat.nullBin;
+        } else {
+          columnBin = columnStat.bins[bin];
+        }
+        desc = columnBin.label;
+        if (columnStat.isLinked) {
+          count = columnBin.linked.size();
+          frac = 100 * (count / columnBin.count);
+          extra = ` (${count}/${columnBin.count} - ${frac.toFixed(1)}%)`
+        } else {
+          count = columnBin.count;
+          frac = 100 * (count / this._rowCount);
+          extra = ` (${count} - ${frac.toFixed(1)}%)`
+        }
+        return { ...this._columnStats[column], desc: desc, extra: extra, hoveredBin: bin};
+      }
+      let filter = this._columnFilters.get(column);
+      if (filter !== undefined && filter.range) {
+        let [min, max] = filter.range;
+        let count = filter.rows.size();
+        let frac = 100 * (count / this._rowCount);
+        return {
+          ...this._columnStats[column],
+          desc: Private.formatRange(min, max, this._types[column]),
+          extra: ` (${count} - ${frac.toFixed(1)}%)`
+        };
+      }
+      return this._columnStats[column];
+    }
+    else if (region === 'body') {
+      if (this._filteredSet !== null) {
+        row = this._filteredSet[row];
+      }
+      return this._columns[column].get(row);
+    }
+  }
+
+  tooltip(region: DataModel.CellRegion, row: number, column: number): any {
+    let dataColumn = this.dataColumn(region, column);
+    if (dataColumn >= 0) {
+      region = Private.dataRegion(region);
+      column = dataColumn;
+    }
+
+    if (region === 'column-header') {
+      return Private.profileFields(this.getColumnProfile(column), this._types[column]);
+    }
+    if (this._filteredSet !== null) {
+      row = this._filteredSet[row];
+    }
+    let tooltip = [];
+    for (let i of this._columnOrder) {
+      let field = [this._columnStats[i].header, this._columns[i].get(row)];
+      tooltip.push(field);
+    }
+
+    return tooltip;
+  }
+
+  metadata(region: DataModel.CellRegion, row: number, column: number): DataModel.Metadata {
+    let dataColumn = this.dataColumn(region, column);
+    if (dataColumn >= 0) {
+      region = Private.dataRegion(region);
+      column = dataColumn;
+    }
+
+    if (region === 'column-header') {
+      let index = this._sortKeys.findIndex(key => key.column === column);
+      return {
+        'type': this._types[column],
+        'sort': (index < 0) ? null : this._sortKeys[index].order,
+        'sortRank': (index < 0 || this._sortKeys.length < 2) ? 0 : index + 1
+      };
+    }
+    if (region === 'body') {
+      let metadata: { [key: string]: any } = { 'type': this._types[column] };
+      if (this._searchTest !== null) {
+        let value = this._columns[column].get(this.dataRow(row));
+        metadata['match'] = value !== null && !this.missingTest(column)(String(value)) &&
+          this._searchTest(Private.cellText(value, this._types[column]));
+      }
+      let saved = this._savedValues.get(column);
+      if (saved !== undefined && saved.has(this.dataRow(row))) {
+        metadata['edited'] = true;
+      }
+      return metadata;
+    }
+    return { 'type': this._types[column] };
+  }
+
+  setData(region: DataModel.CellRegion, row: number, column: number, value: any): boolean {
+    let viewRegion = region;
+    let viewColumn = column;
+    let dataColumn = this.dataColumn(region, column);
+    if (dataColumn >= 0) {
+      region = Private.dataRegion(region);
+      column = dataColumn;
+    }
+
+    if (region === 'body') {
+      if (this._computed.has(column)) {
+        return false;
+      }
+
+      let type = this._types[column];
+      let dataRow = this.dataRow(row);
+      let previous = this._columns[column].get(dataRow);
+
+      // The editor starts from the text of the value, which leaves out
+      // the zone and milliseconds of a datetime.
+      let text = String(value);
+      if (text === formatValue(previous, type)) {
+        return true;
+      }
+
+      let parsed: any;
+      try {
+        parsed = parseValue(text, type);
+      } catch (err) {
+        return false;
+      }
+
+      if (!Private.sameValue(parsed, previous, type)) {
+        this._undoStack.push({ row: dataRow, column, previous, value: parsed });
+        this._redoStack = [];
+        this._editCell(dataRow, column, parsed);
+      }
+      return true;
+    }
+
+    if (region === 'corner-header' || region === 'column-header') {
+      let quickFilter = this._quickFilters[1];
+
+      if (region === 'corner-header') {
+        this.search(value);
+      } else if (value.trim() !== '') {
+        quickFilter.set(column, value);
+
+        // Keep the previous filter of the column while the text is invalid.
+        let expression: FilterExpression | null = null;
+        try {
+          expression = parseFilter(value, this._types[column]);
+          this._filterErrors.delete(column);
+        } catch (err) {
+          this._filterErrors.set(column, err.message);
+        }
+
+        if (expression !== null) {
+          let parsed = expression;
+          this._setColumnFilter(column, {
+            include: null,
+            exclude: [],
+            select: (values, type) => selectFilter(parsed, values, type, this.missingTest(column))
+          });
+        }
+      } else {
+        quickFilter.delete(column);
+        this._filterErrors.delete(column);
+        this._setColumnFilter(column, null);
+      }
+
+      this.emitChanged({
+        type: 'cells-changed',
+        region: viewRegion,
+        row: row, rowSpan: 1,
+        column: viewColumn, columnSpan: 1
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Set or clear the filter of a column and apply the filters.
+   */
+  private _setColumnFilter(column: number, filter: Private.IFilterBins | null): void {
+    if (filter === null) {
+      this._columnFilters.delete(column);
+    } else {
+      this._columnFilters.set(column, {
+        ...filter,
+        rows: Private.filterRows(filter, this._columns[column], this._types[column])
+      });
+    }
+    this._applyFilters();
+  }
+
+  /**
+   * Set or clear the kept and excluded rows and apply the filters.
+   */
+  private _setRowFilter(kept: TypedFastBitSet | null, excluded: TypedFastBitSet): void {
+    if (kept === null && excluded.size() === 0) {
+      this._rowFilter = null;
+    } else {
+      this._rowFilter = { kept, excluded, rows: Private.rowFilterRows(kept, excluded, this._rowCount) };
+    }
+    this._applyFilters();
+  }
+
+  /**
+   * Apply the filters and signal the new rows of the model.
+   */
+  private _applyFilters(): void {
+    this._combineFilters();
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Combine the filters of the columns and link the column statistics.
+   */
+  private _combineFilters(): void {
+    let rows = Array.from(this._columnFilters.values(), filter => filter.rows);
+    rows.push(...this._rowFilters());
+    this._currentBitset = Private.intersectRows(rows);
+    this._filteredProfiles.clear();
+    this._updateRows();
+
+    for (let column = 0; column < this._columnStats.length; column++) {
+      this._linkColumn(column);
+    }
+  }
+
+  /**
+   * Set the value of a body cell, marking it until the data is saved.
+   */
+  private _editCell(row: number, column: number, value: any): void {
+    let saved = this._savedValues.get(column);
+    if (saved === undefined) {
+      saved = new Map<number, any>();
+      this._savedValues.set(column, saved);
+    }
+    if (!saved.has(row)) {
+      saved.set(row, this._columns[column].get(row));
+    } else if (saved.get(row) === value) {
+      saved.delete(row);
+    }
+
+    let viewCount = this.rowCount('body');
+    this._updateColumn(column, [row], [value]);
+
+    // Compute the columns depending on the edited column again.
+    let changed = [column];
+    this._computed.forEach((expression, index) => {
+      if (expression.columns.some(source => changed.indexOf(source) >= 0)) {
+        this._updateColumn(index, [row], [expression.evaluate(this._columns, row)]);
+        changed.push(index);
+      }
+    });
+
+    this._refreshFilters();
+    this._emitRowChanges(viewCount);
+  }
+
+  /**
+   * Replace the values of rows of a column and update its statistics.
+   */
+  private _updateColumn(column: number, rows: Array<number>, values: Array<any>): void {
+    let stored = this._storedColumn(column);
+    let type = this._types[column];
+    let stats = this._columnStats[column];
+
+    let missing = this.missingTest(column);
+    let previous = Private.locateBins(stats, stored, type, rows, missing);
+    rows.forEach((row, i) => { stored.set(row, values[i]); });
+    if (previous === null || !Private.updateStats(stats, previous, stored, type, rows, missing)) {
+      this._rebinColumn(column);
+    }
+  }
+
+  /**
+   * Signal the changes of the body rows after values were replaced.
+   *
+   * @param viewCount - The number of body rows before the change.
+   */
+  private _emitRowChanges(viewCount: number): void {
+    // Rows may have moved in or out of the filters, or within the sort.
+    if (this.rowCount('body') !== viewCount) {
+      this.emitChanged({ type: 'model-reset' });
+    } else {
+      this._emitBodyChanges(viewCount);
+    }
+
+    this._emitHeaderChanges();
+  }
+
+  /**
+   * Evaluate the filters and the search again after the data changed.
+   */
+  private _refreshFilters(): void {
+    this._profiles.clear();
+    this._columnFilters.forEach((filter, column) => {
+      filter.rows = Private.filterRows(filter, this._columns[column], this._types[column]);
+    });
+    if (this._searchTest !== null) {
+      this._searchRows = this._selectSearch(this._searchTest);
+    }
+    if (this._rowFilter !== null) {
+      let { kept, excluded } = this._rowFilter;
+      this._rowFilter.rows = Private.rowFilterRows(kept, excluded, this._rowCount);
+    }
+    this._combineFilters();
+  }
+
+  /**
+   * Get the rows passing the filters which are not tied to a column, the
+   * search and the kept or excluded rows.
+   */
+  private _rowFilters(): Array<TypedFastBitSet> {
+    let rows: Array<TypedFastBitSet> = [];
+    if (this._searchRows !== null) {
+      rows.push(this._searchRows);
+    }
+    if (this._rowFilter !== null) {
+      rows.push(this._rowFilter.rows);
+    }
+    return rows;
+  }
+
+  /**
+   * Signal the changes of the column statistics and the row count.
+   */
+  private _emitHeaderChanges(): void {
+    this.emitChanged({
+      type: 'cells-changed',
+      region: 'column-header',
+      row: 0, rowSpan: 1,
+      column: 0, columnSpan: this.columnCount('body')
+    });
+    this.emitChanged({
+      type: 'cells-changed',
+      region: 'corner-header',
+      row: 0, rowSpan: 1,
+      column: 0, columnSpan: this.columnCount('row-header')
+    });
+  }
+
+  /**
+   * Signal the changes of the values of the first body rows, including
+   * the pinned columns.
+   */
+  private _emitBodyChanges(rowSpan: number): void {
+    this.emitChanged({
+      type: 'cells-changed',
+      region: 'body',
+      row: 0, rowSpan,
+      column: 0, columnSpan: this.columnCount('body')
+    });
+    if (this._pinnedCount > 0) {
+      this.emitChanged({
+        type: 'cells-changed',
+        region: 'row-header',
+        row: 0, rowSpan,
+        column: 1, columnSpan: this._pinnedCount
+      });
+    }
+  }
+
+  /**
+   * Signal the change of a header cell of a column, in the column headers
+   * or in the corner header of the pinned columns.
+   */
+  private _emitColumnChange(column: number, row: number): void {
+    let index = this._columnOrder.indexOf(column);
+    if (index < 0) {
+      return;
+    }
+    let pinned = index < this._pinnedCount;
+    this.emitChanged({
+      type: 'cells-changed',
+      region: pinned ? 'corner-header' : 'column-header',
+      row, rowSpan: 1,
+      column: pinned ? index + 1 : index - this._pinnedCount, columnSpan: 1
+    });
+  }
+
+  /**
+   * Get a column in columnar storage, copying the values of a column
+   * read in place.
+   */
+  private _storedColumn(column: number): NumericColumn | DictionaryColumn {
+    let values = this._columns[column];
+    if (values instanceof NumericColumn || values instanceof DictionaryColumn) {
+      return values;
+    }
+    let stored = encodeColumn(values, this._types[column]);
+    this._columns[column] = stored;
+    return stored;
+  }
+
+  /**
+   * Select the rows with a value of any column passing a search test.
+   *
+   * The values are tested by the text shown in their cells, and the
+   * values counted as missing never match.
+   */
+  private _selectSearch(test: (text: string) => boolean): TypedFastBitSet {
+    let rows = new TypedFastBitSet();
+    this._columns.forEach((values, column) => {
+      let type = this._types[column];
+      let matches = selectMatches(values, test, value => Private.cellText(value, type));
+      matches.difference(selectMatches(values, this.missingTest(column)));
+      rows.union(matches);
+    });
+    return rows;
+  }
+
+  /**
+   * Create the stats request for a column.
+   */
+  private _statsRequest(column: number): Private.IStatsRequest {
+    return Private.statsRequest(this._columns[column], this._types[column], column,
+      this._maxCategories, this._uniqueRatio, this.missingTest(column));
+  }
+
+  /**
+   * Compute the statistics of columns again after their missing values
+   * changed.
+   */
+  private _updateMissing(columns: Array<number>): void {
+    // Compute the columns depending on the changed columns again.
+    let changed = columns.slice();
+    this._computed.forEach((expression, index) => {
+      if (expression.columns.some(source => changed.indexOf(source) >= 0)) {
+        this._columns[index] = Private.evaluateColumn(expression, this._columns, this._rowCount);
+        if (changed.indexOf(index) < 0) {
+          changed.push(index);
+        }
+      }
+    });
+
+    for (let column of changed) {
+      // A pending request still counts the previous missing values.
+      this._pendingStats.forEach((request, id) => {
+        if (request.column === column) {
+          this._pendingStats.delete(id);
+        }
+      });
+      this._rebinColumn(column);
+    }
+
+    this._refreshFilters();
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Recompute the statistics of a column whose values outgrew its bins.
+   *
+   * A filter by the bins of the column is converted to the value ranges
+   * of the bins, so it keeps applying to the new bins and rows.
+   */
+  private _rebinColumn(column: number): void {
+    let filter = this._columnFilters.get(column);
+    if (filter !== undefined && !filter.select) {
+      filter.select = Private.binSelect(filter, this._columnStats[column], this._types[column], this.missingTest(column));
+    }
+
+    // The statistics of a pending request are caught up when it arrives.
+    for (let request of this._pendingStats.values()) {
+      if (request.column === column) {
+        return;
+      }
+    }
+
+    let request = this._statsRequest(column);
+    let worker = this._getWorker();
+    if (worker === null) {
+      this._columnStats[column] = this._createStats(request, computeStats(request));
+      return;
+    }
+
+    this._postStats(worker, request);
+  }
+
+  /**
+   * Post a stats request to the worker.
+   *
+   * A copy of a column held by the request is transferred rather than
+   * cloned, the stored columns are cloned.
+   */
+  private _postStats(worker: Worker, request: Private.IStatsRequest): void {
+    request.id = ++this._statsRequestId;
+
+    // Keep only the dictionary needed for the labels until the result arrives.
+    this._pendingStats.set(request.id, { ...request, values: null, codes: null, nulls: new Uint32Array(0) });
+    worker.postMessage(request, Private.requestTransferables(request));
+  }
+
+  /**
+   * Link the statistics of a column with the filters of the other columns.
+   */
+  private _linkColumn(column: number): void {
+    let filter = this._columnFilters.get(column) || null;
+    Private.linkStats(this._columnStats[column], this.filteredRowsExcept([column]), filter);
+  }
+
+  /**
+   * Update the body rows from the filtered rows and the sort keys.
+   */
+  private _updateRows(): void {
+    let rows = (this._currentBitset === null) ? null : this._currentBitset.array();
+
+    if (this._sortKeys.length > 0) {
+      if (rows === null) {
+        rows = new Array<number>(this._rowCount);
+        for (let i = 0; i < this._rowCount; i++) {
+          rows[i] = i;
+        }
+      }
+
+      let comparators = this._sortKeys.map(({ column, order }) =>
+        rowComparator(this._columns[column], this._types[column], order === 'desc', this.missingTest(column)));
+      rows.sort(Private.chainComparators(comparators));
+    }
+
+    this._filteredSet = rows;
+    this._viewRows = null;
+  }
+
+  /**
+   * Get the stats worker, creating it on first use.
+   */
+  private _getWorker(): Worker | null {
+    if (this._worker === null && this._statsWorker !== null && typeof Worker !== 'undefined') {
+      let worker = new Worker(this._statsWorker);
+      worker.onmessage = (event: MessageEvent) => {
+        this._onStatsResult(event.data as StatsResult);
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        console.error(event.message);
+        this._onStatsError();
+      };
+      this._worker = worker;
+    }
+    return this._worker;
+  }
+
+  /**
+   * Handle the statistics of a column arriving from the stats worker.
+   */
+  private _onStatsResult(result: StatsResult): void {
+    let request = this._pendingStats.get(result.id);
+
+    // Bail if the result is for data which has been replaced.
+    if (request === undefined) {
+      return;
+    }
+    this._pendingStats.delete(result.id);
+
+    let column = request.column;
+    let stats = this._createStats(request, result);
+    this._columnStats[column] = stats;
+
+    // Add the rows appended since the request was posted.
+    if (request.length < this._rowCount) {
+      if (!Private.appendStats(stats, this._columns[column], request.type, request.length, this.missingTest(column))) {
+        this._rebinColumn(column);
+      }
+    }
+    this._linkColumn(column);
+
+    this.emitChanged({
+      type: 'cells-changed',
+      region: 'column-header',
+      row: 0, rowSpan: 1,
+      column: column, columnSpan: 1
+    });
+  }
+
+  /**
+   * Compute the pending column statistics in place if the worker fails.
+   */
+  private _onStatsError(): void {
+    let requests = Array.from(this._pendingStats.values());
+    this._pendingStats.clear();
+    this._worker = null;
+    this._statsWorker = null;
+
+    for (let request of requests) {
+      let retry = this._statsRequest(request.column);
+      this._columnStats[request.column] = this._createStats(retry, computeStats(retry));
+    }
+
+    this.emitChanged({ type: 'model-reset' });
+  }
+
+  /**
+   * Create the column statistics from a stats result.
+   */
+  private _createStats(request: Private.IStatsRequest, result: StatsResult): ColumnStats {
+    let { column, type } = request;
+    let total = this._rowCount;
+
+    let { min, max, edges } = result;
+    let bitsets = result.bins.map(Private.bitsetFromWords);
+    let nullBitset = Private.bitsetFromWords(result.nulls);
+
+    let labels: Array<any> = [];
+    let desc = '';
+
+    switch (type) {
+      case 'float':
+      case 'integer': {
+        if (min !== undefined && max !== undefined) {
+          labels = Private.numericLabels(edges!, type);
+          desc = Private.formatRange(min, max, type);
+        }
+      }
+      break;
+      case 'date':
+      case 'datetime': {
+        if (min !== undefined && max !== undefined) {
+          labels = edges!.slice(0, -1).map(time => Private.temporalLabel(time, result.unit!, result.step, type));
+          desc = Private.formatRange(min, max, type);
+        }
+      }
+      break;
+      case 'string':
+      case 'boolean': {
+        if (result.byLength) {
+          labels = Private.numericLabels(edges!, 'integer').map(label => `Length ${label}`);
+          desc = Private.lengthDesc(min!, max!);
+        } else if (result.categories !== null) {
+          labels = result.categories.map(code => request.dictionary![code]);
+          if (result.otherCount > 0) {
+            labels.push(Private.otherLabel(result.otherCount));
+          }
+          desc = Private.categoryDesc(result.categories.length + result.otherCount);
+        } else {
+          labels = request.dictionary!;
+          desc = Private.categoryDesc(bitsets.length);
+        }
+      }
+      break;
+    }
+
+    let bins: Array<ColumnBin> = bitsets.map((bitset, i) => {
+      let bin: ColumnBin = { label: labels[i], bitset: bitset, count: bitset.size(), linked: bitset.clone() };
+      if (edges !== null) {
+        bin.min = edges[i];
+        bin.max = edges[i + 1];
+      }
+      return bin;
+    });
+
+    let maxBinCount = 0;
+    for (let bin of bins) {
+      maxBinCount = Math.max(bin.count, maxBinCount);
+    }
+
+    return {
+      header: this._keys[column],
+      totalCount: total,
+      maxBinCount: maxBinCount,
+      hoveredBin: -1,
+      nullBin: {
+        label: 'Missing values',
+        bitset: nullBitset,
+        count: nullBitset.size(),
+        linked: nullBitset.clone()
+      },
+      bins: bins,
+      isLinked: false,
+      isComputing: false,
+      desc: desc,
+      extra: "",
+      min: min,
+      max: max,
+      otherCount: (result.otherCount > 0) ? result.otherCount : undefined,
+      byLength: result.byLength
+    };
+  }
+
+  private _columns: Array<ColumnVector> = [];
+  private _rowCount = 0;
+  private _keys: Array<string> = [];
+  private _types: Array<string> = [];
+  private _columnStats: Array<ColumnStats> = [];
 
   private _quickFilters: [Map<number, any>, Map<number, any>] = [new Map(), new Map()];
+  private _filterErrors = new Map<number, string>();
+
+  private _hoveredBin: Private.IHoverBin = {column: -1, bin: -1};
+  private _brush: Private.IBrush | null = null;
+
+  private _filteredSet: Array<number> | null = null;
+  private _viewRows: Int32Array | null = null;
+  private _currentBitset: TypedFastBitSet | null = null
+  private _columnFilters = new Map<number, Private.IColumnFilter>();
+  private _rowFilter: Private.IRowFilter | null = null;
+  private _columnOrder: Array<number> = [];
+  private _pinnedCount = 0;
+  private _keyColumn = -1;
+  private _missingValues: Set<string>;
+  private _columnMissingValues = new Map<number, Set<string>>();
+  private _searchRows: TypedFastBitSet | null = null;
+  private _searchTest: ((text: string) => boolean) | null = null;
+  private _sortKeys: Array<SortKey> = [];
+
+  private _statsWorker: string | null;
+  private _maxCategories: number;
+  private _uniqueRatio: number;
+  private _worker: Worker | null = null;
+  private _statsRequestId = 0;
+  private _pendingStats = new Map<number, Private.IStatsRequest>();
+  private _undoStack: Array<Private.IEdit> = [];
+  private _redoStack: Array<Private.IEdit> = [];
+  private _savedValues = new Map<number, Map<number, any>>();
+  private _computed = new Map<number, CompiledExpression>();
+  private _profiles = new Map<number, ColumnProfile>();
+  private _filteredProfiles = new Map<number, ColumnProfile>();
+}
+
+
+/**
+ * The namespace for the `TableDataModel` class statics.
+ */
+export
+namespace TableDataModel {
+  /**
+   * An options object for initializing a table data model.
+   */
+  export
+  interface IOptions {
+    /**
+     * The URL of the script of the column statistics worker.
+     *
+     * The default is `null`, which computes the statistics in place.
+     */
+    statsWorker?: string | null;
+
+    /**
+     * The maximum number of histogram bins of a string column. The less
+     * frequent values are lumped into an "Other" bin.
+     *
+     * The default is `30`.
+     */
+    maxCategories?: number;
+
+    /**
+     * The fraction of distinct values above which a string column with
+     * more than `maxCategories` values is considered unique-ish, and is
+     * binned by text length instead.
+     *
+     * The default is `0.5`.
+     */
+    uniqueRatio?: number;
+
+    /**
+     * The texts of the values counted as missing, besides `null`, in the
+     * columns without rules of their own.
+     *
+     * The default is `['', 'NA', 'N/A', 'null', 'NaN']`.
+     */
+    missingValues?: Array<string>;
+  }
+}
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * An object which represents the bin currently hovered.
+   */
+  export
+  interface IHoverBin {
+    /**
+     * The column index of the first cell in the region.
+     */
+    column: number;
+
+    /**
+     * The column bin that is hovered
+     */
+    bin: number | 'null';
+  }
+
+  /**
+   * An object which represents the bins being brushed.
+   */
+  export
+  interface IBrush {
+    /**
+     * The column being brushed.
+     */
+    column: number;
+
+    /**
+     * The index of the first brushed bin.
+     */
+    start: number;
+
+    /**
+     * The index of the last brushed bin.
+     */
+    end: number;
+  }
+
+  /**
+   * An edit of a body cell, recorded for undo and redo.
+   */
+  export
+  interface IEdit {
+    /**
+     * The index of the row in the data.
+     */
+    row: number;
+
+    /**
+     * The index of the column.
+     */
+    column: number;
+
+    /**
+     * The value before the edit.
+     */
+    previous: any;
+
+    /**
+     * The value after the edit.
+     */
+    value: any;
+  }
+
+  /**
+   * Move the saved values of edited cells to the new indices of the rows.
+   *
+   * @param moved - The new index of each row, or `-1` for a removed row.
+   */
+  export
+  function moveEdits(saved: Map<number, any>, moved: Int32Array): Map<number, any> {
+    let result = new Map<number, any>();
+    saved.forEach((value, row) => {
+      if (moved[row] >= 0) {
+        result.set(moved[row], value);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * A stats request for a column of the model.
+   */
+  export
+  interface IStatsRequest extends StatsRequest {
+    /**
+     * The index of the column.
+     */
+    column: number;
+
+    /**
+     * The number of rows of the column when the request was created.
+     */
+    length: number;
+
+    /**
+     * Whether the request holds a copy of the column rather than the
+     * stored column itself.
+     */
+    copied: boolean;
+  }
+
+  /**
+   * The texts of the values counted as missing by default.
+   */
+  export
+  const defaultMissingValues = ['', 'NA', 'N/A', 'null', 'NaN'];
+
+  /**
+   * Create the stats request for a column.
+   *
+   * Columns which are not in columnar storage, such as Arrow vectors, are
+   * encoded into a temporary copy for the duration of the request, as are
+   * the columns with values counted as missing.
+   */
+  export
+  function statsRequest(values: ColumnVector, type: string, column: number, maxCategories: number, uniqueRatio: number,
+    missing: (text: string) => boolean): IStatsRequest {
+    let stored = maskValues((values instanceof NumericColumn || values instanceof DictionaryColumn) ?
+      values : encodeColumn(values, type), missing);
+
+    let request: IStatsRequest = {
+      id: column,
+      column: column,
+      length: values.length,
+      copied: stored !== values,
+      type: type,
+      values: null,
+      codes: null,
+      dictionary: null,
+      nulls: stored.nulls.words,
+      maxCategories: maxCategories,
+      uniqueRatio: uniqueRatio
+    };
+
+    if (stored instanceof NumericColumn) {
+      request.values = stored.values;
+    } else {
+      request.codes = stored.codes;
+      request.dictionary = stored.dictionary;
+    }
+
+    return request;
+  }
+
+  /**
+   * Evaluate a compiled expression for all the rows of a table.
+   */
+  export
+  function evaluateColumn(expression: CompiledExpression, columns: ReadonlyArray<ColumnVector>, total: number): NumericColumn | DictionaryColumn {
+    let values = new Array<any>(total);
+    for (let row = 0; row < total; row++) {
+      values[row] = expression.evaluate(columns, row);
+    }
+    return encodeColumn({ length: values.length, get: row => values[row] }, expression.type);
+  }
+
+  /**
+   * Get the buffers of a stats request which can be transferred to the
+   * worker, which are those of a copy of the column.
+   */
+  export
+  function requestTransferables(request: IStatsRequest): Array<ArrayBuffer> {
+    if (!request.copied) {
+      return [];
+    }
+    let array = (request.values !== null) ? request.values : request.codes!;
+    return [array.buffer as ArrayBuffer, request.nulls.buffer as ArrayBuffer];
+  }
+
+  /**
+   * Create the placeholder statistics of a column being computed.
+   */
+  export
+  function pendingStats(header: string, total: number): ColumnStats {
+    let nullBitset = new TypedFastBitSet();
+    return {
+      header: header,
+      totalCount: total,
+      maxBinCount: 0,
+      hoveredBin: -1,
+      nullBin: {
+        label: 'Missing values',
+        bitset: nullBitset,
+        count: 0,
+        linked: nullBitset.clone()
+      },
+      bins: [],
+      isLinked: false,
+      isComputing: true,
+      desc: '',
+      extra: ''
+    };
+  }
+
+  /**
+   * Create a bitset from the words of a stats result.
+   */
+  export
+  function bitsetFromWords(words: Uint32Array): TypedFastBitSet {
+    let bitset = new TypedFastBitSet();
+    bitset.words = words;
+    bitset.count = words.length;
+    return bitset;
+  }
+
+  /**
+   * The bins a column is filtered by.
+   */
+  export
+  interface IFilterBins {
+    /**
+     * The rows of the included bins, or `null` to include all rows.
+     */
+    include: Array<TypedFastBitSet> | null;
+
+    /**
+     * The rows of the excluded bins.
+     */
+    exclude: Array<TypedFastBitSet>;
+
+    /**
+     * The value range the column is filtered by, if any.
+     */
+    range?: [number, number];
+
+    /**
+     * The selection of the rows passing the filter, used instead of the
+     * bins when given.
+     */
+    select?: (values: ColumnVector, type: string) => TypedFastBitSet;
+  }
+
+  /**
+   * The filter of a column.
+   */
+  export
+  interface IColumnFilter extends IFilterBins {
+    /**
+     * The rows passing the filter.
+     */
+    rows: TypedFastBitSet;
+  }
+
+  /**
+   * Get the region showing the data of a column of a grid region, for the
+   * pinned columns shown in the row header and corner header.
+   */
+  export
+  function dataRegion(region: DataModel.CellRegion): DataModel.CellRegion {
+    switch (region) {
+    case 'row-header':
+      return 'body';
+    case 'corner-header':
+      return 'column-header';
+    default:
+      return region;
+    }
+  }
+
+  /**
+   * The rows kept or excluded by hand.
+   */
+  export
+  interface IRowFilter {
+    /**
+     * The kept rows, or `null` to keep all the rows.
+     */
+    kept: TypedFastBitSet | null;
+
+    /**
+     * The excluded rows.
+     */
+    excluded: TypedFastBitSet;
+
+    /**
+     * The rows passing the filter.
+     */
+    rows: TypedFastBitSet;
+  }
+
+  /**
+   * Compute the rows passing a filter of kept and excluded rows.
+   */
+  export
+  function rowFilterRows(kept: TypedFastBitSet | null, excluded: TypedFastBitSet, total: number): TypedFastBitSet {
+    let rows = (kept === null) ? allRows(total) : kept.clone();
+    rows.difference(excluded);
+    return rows;
+  }
+
+  /**
+   * Move the rows of a bitset to their indices after a removal.
+   *
+   * @param moved - The new index of each row, or `-1` for a removed row.
+   */
+  export
+  function moveRows(rows: TypedFastBitSet, moved: Int32Array): TypedFastBitSet {
+    let result = new TypedFastBitSet();
+    for (let row of rows.array()) {
+      if (row < moved.length && moved[row] >= 0) {
+        result.add(moved[row]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compute the rows passing the filter of a column.
+   */
+  export
+  function filterRows(filter: IFilterBins, values: ColumnVector, type: string): TypedFastBitSet {
+    if (filter.select) {
+      return filter.select(values, type);
+    }
 
-  private _hoveredBin: Private.IHoverBin = {column: -1, bin: -1};
+    let rows: TypedFastBitSet;
+    if (filter.include === null) {
+      rows = allRows(values.length);
+    } else {
+      rows = new TypedFastBitSet();
+      for (let bitset of filter.include) {
+        rows.union(bitset);
+      }
+    }
 
-  private _filteredSet: Array<number> | null = null;
-  private _currentBitset: TypedFastBitSet | null = null
-}
+    for (let bitset of filter.exclude) {
+      rows.difference(bitset);
+    }
+    return rows;
+  }
 
-/**
- * The namespace for the module implementation details.
- */
-namespace Private {
   /**
-   * An object which represents the bin currently hovered.
+   * Intersect a list of row bitsets, or return `null` for an empty list.
    */
   export
-  interface IHoverBin {
-    /**
-     * The column index of the first cell in the region.
-     */
-    column: number;
+  function intersectRows(rows: Array<TypedFastBitSet>): TypedFastBitSet | null {
+    if (rows.length === 0) {
+      return null;
+    }
 
-    /**
-     * The column bin that is hovered
-     */
-    bin: number | 'null';
+    let result = rows[0].clone();
+    for (let i = 1; i < rows.length; i++) {
+      result.intersection(rows[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Intersect the bins of a column with the rows filtered by the other
+   * columns, and mark the bins the column itself is filtered by.
+   */
+  export
+  function linkStats(stats: ColumnStats, bitset: TypedFastBitSet | null, filter: IColumnFilter | null): void {
+    let include = (filter && filter.include) || [];
+    let exclude = filter ? filter.exclude : [];
+
+    let range = filter && filter.range;
+
+    for (let columnBin of [stats.nullBin, ...stats.bins]) {
+      if (range && columnBin.min !== undefined && columnBin.min >= range[0] && columnBin.max! <= range[1]) {
+        columnBin.filter = 'include';
+      } else if (include.indexOf(columnBin.bitset) >= 0) {
+        columnBin.filter = 'include';
+      } else if (exclude.indexOf(columnBin.bitset) >= 0) {
+        columnBin.filter = 'exclude';
+      } else {
+        delete columnBin.filter;
+      }
+    }
+
+    stats.isLinked = bitset !== null;
+    if (bitset === null) {
+      return;
+    }
+
+    stats.nullBin.linked = stats.nullBin.bitset.new_intersection(bitset);
+
+    for (let columnBin of stats.bins) {
+      //columnBin.linked = bin.bitset.new_intersection(columnBin.bitset);
+      // Reuse the linked words unless the bin has grown since.
+      if (columnBin.linked.words.length !== columnBin.bitset.words.length) {
+        columnBin.linked.words = new Uint32Array(columnBin.bitset.words.length);
+      }
+      columnBin.linked.words.set(columnBin.bitset.words);
+      columnBin.linked.count = columnBin.bitset.count;
+      columnBin.linked.intersection(bitset);
+    }
+  }
+
+  /**
+   * Create the selection of the values of the bins a column is filtered
+   * by, which outlives the bins when the column is rebinned.
+   */
+  export
+  function binSelect(filter: IFilterBins, stats: ColumnStats, type: string,
+    missing: (text: string) => boolean): (values: ColumnVector, type: string) => TypedFastBitSet {
+    let toBins = (bitsets: Array<TypedFastBitSet>) => stats.bins.filter(bin => bitsets.indexOf(bin.bitset) >= 0);
+    let inBin = binTest(stats, type);
+
+    let include = (filter.include === null) ? null : toBins(filter.include);
+    let exclude = toBins(filter.exclude);
+    let includeNulls = filter.include !== null && filter.include.indexOf(stats.nullBin.bitset) >= 0;
+    let excludeNulls = filter.exclude.indexOf(stats.nullBin.bitset) >= 0;
+
+    let test = (value: any) => {
+      return !missing(String(value)) &&
+        (include === null || include.some(bin => inBin(bin, value))) &&
+        !exclude.some(bin => inBin(bin, value));
+    };
+
+    return (values: ColumnVector, type: string) => {
+      let rows = isOrdered(type) ? selectNumbers(values, type, test) : selectMatches(values, test);
+      if (include === null ? !excludeNulls : includeNulls) {
+        rows.union(selectNulls(values));
+        rows.union(selectMatches(values, missing));
+      }
+      return rows;
+    };
+  }
+
+  /**
+   * Create the test of whether a value belongs to a bin of a column.
+   *
+   * Values of numeric and temporal columns are tested as numbers, the
+   * values of other columns as text.
+   */
+  function binTest(stats: ColumnStats, type: string): (bin: ColumnBin, value: any) => boolean {
+    let last = stats.bins[stats.bins.length - 1];
+    let inRange = (bin: ColumnBin, value: number) => {
+      return value >= bin.min! && (value < bin.max! || (bin === last && value === bin.max));
+    };
+
+    if (isOrdered(type)) {
+      return inRange;
+    }
+    if (stats.byLength) {
+      return (bin: ColumnBin, text: string) => inRange(bin, text.length);
+    }
+
+    let other = (stats.otherCount === undefined) ? null : last;
+    let labels = new Set(stats.bins.filter(bin => bin !== other).map(bin => String(bin.label)));
+    return (bin: ColumnBin, text: string) => {
+      return (bin === other) ? !labels.has(text) : text === String(bin.label);
+    };
+  }
+
+  /**
+   * Test whether a value is missing, or counted as missing by the test of
+   * its text.
+   */
+  function isMissing(value: any, missing: (text: string) => boolean): boolean {
+    return value === null || missing(String(value));
+  }
+
+  /**
+   * Find the bins of the values of some rows of a column.
+   *
+   * @returns The bin of each row, or `null` if a value falls outside of
+   *   the bin edges and the column must be rebinned. A new category gets
+   *   a new, empty bin, unless the column is limited to its most frequent
+   *   values, which must then be ranked again.
+   */
+  export
+  function locateBins(stats: ColumnStats, values: ColumnVector, type: string, rows: Array<number>,
+    missing: (text: string) => boolean): Array<ColumnBin> | null {
+    if (stats.isComputing) {
+      return null;
+    }
+
+    let bins = stats.bins;
+    let located = new Array<ColumnBin>(rows.length);
+
+    if (isOrdered(type) || stats.byLength) {
+      let toValue = stats.byLength ? textLength : isTemporal(type) ? toTime : Number;
+      let edges = bins.map(bin => bin.min!);
+      if (bins.length > 0) {
+        edges.push(bins[bins.length - 1].max!);
+      }
+
+      for (let i = 0; i < rows.length; i++) {
+        let value = values.get(rows[i]);
+        if (isMissing(value, missing)) {
+          located[i] = stats.nullBin;
+          continue;
+        }
+
+        let number = toValue(value);
+        if (bins.length === 0 || number < edges[0] ||
+            (number >= edges[edges.length - 1] && number > stats.max!)) {
+          return null;
+        }
+        located[i] = bins[binIndex(edges, number)];
+      }
+      return located;
+    }
+
+    let labelBins = new Map<any, ColumnBin>();
+    for (let bin of (stats.otherCount === undefined) ? bins : bins.slice(0, -1)) {
+      labelBins.set(bin.label, bin);
+    }
+
+    for (let i = 0; i < rows.length; i++) {
+      let value = values.get(rows[i]);
+      let bin = isMissing(value, missing) ? stats.nullBin : labelBins.get(value);
+      if (bin === undefined && stats.otherCount !== undefined) {
+        return null;
+      }
+      if (bin === undefined) {
+        bin = { label: value, bitset: new TypedFastBitSet(), count: 0, linked: new TypedFastBitSet() };
+        labelBins.set(value, bin);
+        bins.push(bin);
+      }
+      located[i] = bin;
+    }
+    return located;
+  }
+
+  /**
+   * Add the rows appended to a column to its statistics.
+   *
+   * @returns Whether the rows were added, or `false` if the column must
+   *   be rebinned because a value falls outside of its bin edges.
+   */
+  export
+  function appendStats(stats: ColumnStats, values: ColumnVector, type: string, start: number,
+    missing: (text: string) => boolean): boolean {
+    let rows: Array<number> = [];
+    for (let row = start; row < values.length; row++) {
+      rows.push(row);
+    }
+
+    let located = locateBins(stats, values, type, rows, missing);
+    if (located === null) {
+      return false;
+    }
+
+    rows.forEach((row, i) => {
+      located![i].bitset.add(row);
+      located![i].count++;
+    });
+
+    updateSummary(stats, values, type, rows, missing);
+    return true;
+  }
+
+  /**
+   * Move the rows of a column with new values to their new bins.
+   *
+   * @param previous - The bins of the rows before their values changed.
+   *
+   * @returns Whether the rows were moved, or `false` if the column must
+   *   be rebinned because a value falls outside of its bin edges.
+   */
+  export
+  function updateStats(stats: ColumnStats, previous: Array<ColumnBin>, values: ColumnVector, type: string, rows: Array<number>,
+    missing: (text: string) => boolean): boolean {
+    let located = locateBins(stats, values, type, rows, missing);
+    if (located === null) {
+      return false;
+    }
+
+    rows.forEach((row, i) => {
+      previous[i].bitset.remove(row);
+      previous[i].count--;
+      located![i].bitset.add(row);
+      located![i].count++;
+    });
+
+    updateSummary(stats, values, type, rows, missing);
+    return true;
+  }
+
+  /**
+   * Take removed rows out of the statistics of a column.
+   *
+   * @param moved - The new index of each row, or `-1` for a removed row.
+   *
+   * @param total - The number of rows left.
+   */
+  export
+  function removeStats(stats: ColumnStats, type: string, moved: Int32Array, total: number): void {
+    for (let bin of [stats.nullBin, ...stats.bins]) {
+      // Update the bitset in place, the filters hold on to it.
+      let rows = new TypedFastBitSet();
+      for (let row of bin.bitset.array()) {
+        if (moved[row] >= 0) {
+          rows.add(moved[row]);
+        }
+      }
+      bin.bitset.words = rows.words;
+      bin.bitset.count = rows.count;
+      bin.count = rows.size();
+    }
+
+    if (!isOrdered(type) && !stats.byLength) {
+      stats.desc = binsDesc(stats);
+    }
+    stats.maxBinCount = maxBinCount(stats.bins);
+    stats.totalCount = total;
+  }
+
+  /**
+   * Update the summary of a column after rows were added to its bins.
+   *
+   * The value range only grows, it is not narrowed for replaced values.
+   */
+  function updateSummary(stats: ColumnStats, values: ColumnVector, type: string, rows: Array<number>,
+    missing: (text: string) => boolean): void {
+    if (isOrdered(type) || stats.byLength) {
+      let toValue = stats.byLength ? textLength : isTemporal(type) ? toTime : Number;
+      let { min, max } = stats;
+      for (let row of rows) {
+        let value = values.get(row);
+        if (!isMissing(value, missing)) {
+          let number = toValue(value);
+          min = (min === undefined) ? number : Math.min(min, number);
+          max = (max === undefined) ? number : Math.max(max, number);
+        }
+      }
+
+      stats.min = min;
+      stats.max = max;
+      if (min !== undefined && max !== undefined) {
+        stats.desc = stats.byLength ? lengthDesc(min, max) : formatRange(min, max, type);
+      }
+    } else {
+      if (type === 'string') {
+        // Keep the "Other" bin last.
+        let other = (stats.otherCount === undefined) ? [] : stats.bins.splice(-1);
+        stats.bins.sort((a, b) => b.count - a.count);
+        stats.bins.push(...other);
+      }
+      stats.desc = binsDesc(stats);
+    }
+
+    stats.maxBinCount = maxBinCount(stats.bins);
+    stats.totalCount = values.length;
+  }
+
+  /**
+   * Get the largest count of a list of bins.
+   */
+  function maxBinCount(bins: Array<ColumnBin>): number {
+    let count = 0;
+    for (let bin of bins) {
+      count = Math.max(bin.count, count);
+    }
+    return count;
+  }
+
+  /**
+   * Test whether a column type is binned by value ranges.
+   */
+  function isOrdered(type: string): boolean {
+    return type === 'integer' || type === 'float' || isTemporal(type);
+  }
+
+  /**
+   * Test whether a type is date or datetime.
+   */
+  function isTemporal(type: string): boolean {
+    return type === 'date' || type === 'datetime';
+  }
+
+  /**
+   * Test whether two values of a column are equal, comparing the dates
+   * and datetimes by time.
+   */
+  export
+  function sameValue(a: any, b: any, type: string): boolean {
+    if (a === null || b === null || !isTemporal(type)) {
+      return a === b;
+    }
+    return toTime(a) === toTime(b);
+  }
+
+  /**
+   * Chain the comparators of the sort keys into a single comparator.
+   *
+   * Rows which compare equal on every key are kept in row order.
+   */
+  export
+  function chainComparators(comparators: Array<RowComparator>): RowComparator {
+    return (a: number, b: number) => {
+      for (let compare of comparators) {
+        let result = compare(a, b);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return a - b;
+    };
+  }
+
+  /**
+   * Create the test of the text of a value for a search term.
+   */
+  export
+  function searchTest(term: string): (text: string) => boolean {
+    let lower = term.toLowerCase();
+    return (text: string) => text.toLowerCase().indexOf(lower) >= 0;
+  }
+
+  /**
+   * Create the bin labels of a numeric column for the given edges.
+   */
+  export
+  function numericLabels(edges: Array<number>, type: string): Array<string> {
+    let discrete = type === 'integer' && edges.length > 2 && edges[1] - edges[0] === 1;
+
+    let labels = [];
+    for (let i = 0; i < edges.length - 1; i++) {
+      let lo = edges[i];
+      let hi = edges[i + 1];
+      labels.push((discrete || lo === hi) ? String(lo) : `${lo} \u2013 ${hi}`);
+    }
+    return labels;
+  }
+
+  /**
+   * The formatters used for the temporal bin labels.
+   */
+  const monthFormat = new Intl.DateTimeFormat('en-us', { month: 'short', year: 'numeric' });
+  const utcMonthFormat = new Intl.DateTimeFormat('en-us', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+  /**
+   * The formatters of the body cells of the column types, as set up for
+   * the renderers of the grid.
+   */
+  const cellFormats: { [type: string]: TextRenderer.FormatFunc } = {
+    'integer': TextRenderer.formatIntlNumber(),
+    'float': TextRenderer.formatIntlNumber({
+      options: { minimumFractionDigits: 2, maximumFractionDigits: 2 }
+    }),
+    'date': TextRenderer.formatDate(),
+    'datetime': TextRenderer.formatTime()
+  };
+
+  /**
+   * Get the text shown in the body cell of a value.
+   */
+  export
+  function cellText(value: any, type: string): string {
+    let format = cellFormats[type];
+    return (format === undefined) ? String(value) : format({ value } as CellRenderer.CellConfig);
+  }
+
+  /**
+   * Format a timestamp for a date or datetime column.
+   *
+   * #### Notes
+   * The timestamp is shown as the text of its cells.
+   */
+  export
+  function formatTemporal(time: number, type: string): string {
+    return formatValue(new Date(time), type);
+  }
+
+  /**
+   * Format a statistic of a column profile.
+   */
+  export
+  function formatStat(value: number | undefined, type: string): string {
+    if (value === undefined) {
+      return '';
+    }
+    if (type === 'date' || type === 'datetime') {
+      return formatTemporal(value, type);
+    }
+    return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+  }
+
+  /**
+   * Get the labeled fields of the profiles of a column, with a value per
+   * profile.
+   */
+  export
+  function profileFields(profiles: ColumnProfiles, type: string): Array<Array<string>> {
+    let list = (profiles.filtered === null) ? [profiles.all] : [profiles.all, profiles.filtered];
+    let field = (label: string, format: (profile: ColumnProfile) => string) => {
+      return [label, ...list.map(format)];
+    };
+
+    let fields = [
+      field('Rows', profile => String(profile.count)),
+      field('Missing', profile => String(profile.missing)),
+      field('Distinct', profile => String(profile.distinct)),
+      field('Most frequent', profile => {
+        if (profile.mostFrequent === null) {
+          return '';
+        }
+        let value = (type === 'date' || type === 'datetime') ?
+          formatTemporal(toTime(profile.mostFrequent), type) : String(profile.mostFrequent);
+        return `${value} (${profile.mostFrequentCount})`;
+      })
+    ];
+
+    if (type === 'integer' || type === 'float') {
+      fields.push(
+        field('Zeros', profile => formatStat(profile.zeros, type)),
+        field('Mean', profile => formatStat(profile.mean, type)),
+        field('Std. dev.', profile => formatStat(profile.std, type))
+      );
+    }
+    if (type === 'integer' || type === 'float' || type === 'date' || type === 'datetime') {
+      fields.push(
+        field('Min', profile => formatStat(profile.min, type)),
+        field('Q1', profile => formatStat(profile.q1, type)),
+        field('Median', profile => formatStat(profile.median, type)),
+        field('Q3', profile => formatStat(profile.q3, type)),
+        field('Max', profile => formatStat(profile.max, type))
+      );
+    }
+    if (type === 'string') {
+      fields.push(field('Length', profile => {
+        return (profile.minLength === undefined) ? '' : formatRange(profile.minLength, profile.maxLength!, type);
+      }));
+    }
+
+    if (profiles.filtered !== null) {
+      fields.unshift(['', 'All', 'Filtered']);
+    }
+    return fields;
+  }
+
+  /**
+   * Format a value range of a numeric or temporal column.
+   */
+  export
+  function formatRange(min: number, max: number, type: string): string {
+    let format = (type === 'date' || type === 'datetime') ?
+      (value: number) => formatTemporal(value, type) : String;
+    return (min === max) ? format(min) : `${format(min)} \u2013 ${format(max)}`;
+  }
+
+  /**
+   * Format the description of a categorical column.
+   */
+  export
+  function categoryDesc(count: number): string {
+    return `${count} Categor` + ((count > 1) ? 'ies' : 'y');
+  }
+
+  /**
+   * Format the description of a categorical column from its bins.
+   */
+  function binsDesc(stats: ColumnStats): string {
+    let bins = (stats.otherCount === undefined) ? stats.bins : stats.bins.slice(0, -1);
+    return categoryDesc(bins.filter(bin => bin.count > 0).length + (stats.otherCount || 0));
+  }
+
+  /**
+   * Format the description of a string column binned by text length.
+   */
+  export
+  function lengthDesc(min: number, max: number): string {
+    return `Unique-ish, length ${formatRange(min, max, 'integer')}`;
+  }
+
+  /**
+   * Format the label of the bin of the less frequent values.
+   */
+  export
+  function otherLabel(count: number): string {
+    return `Other (${count} value` + ((count > 1) ? 's)' : ')');
+  }
+
+  /**
+   * Format the label of a temporal bin starting at a timestamp.
+   */
+  export
+  function temporalLabel(time: number, unit: TimeUnit, step: number, type: string): string {
+    let date = new Date(time);
+    let utc = type === 'date';
+    let year = utc ? date.getUTCFullYear() : date.getFullYear();
+    let month = utc ? date.getUTCMonth() : date.getMonth();
+    let day = formatTemporal(time, type).slice(0, 10);
+    switch (unit) {
+    case 'year':
+      return (step === 1) ? String(year) : `${year} \u2013 ${year + step}`;
+    case 'quarter':
+      return `Q${Math.floor(month / 3) + 1} ${year}`;
+    case 'month':
+      return (utc ? utcMonthFormat : monthFormat).format(date);
+    case 'week':
+      return `Week of ${day}`;
+    case 'day':
+      return day;
+    case 'hour':
+      return formatTemporal(time, type);
+    default:
+      throw 'unreachable';
+    }
+  }
+
+  /**
+   * Create a column vector over one column of row-major data.
+   */
+  export
+  function rowColumn(data: Array<Array<any>>, column: number): ColumnVector {
+    return {
+      length: data.length,
+      get: (index: number) => data[index][column]
+    };
+  }
+
+  /**
+   * Map an Arrow data type onto a column type of the model.
+   */
+  export
+  function arrowType(type: DataType): string {
+    switch (type.typeId) {
+    case Type.Int:
+      return 'integer';
+    case Type.Float:
+    case Type.Decimal:
+      return 'float';
+    case Type.Bool:
+      return 'boolean';
+    case Type.Date:
+      return 'date';
+    case Type.Timestamp:
+      return 'datetime';
+    case Type.Dictionary:
+      return DataType.isDictionary(type) ? arrowType(type.dictionary) : 'string';
+    default:
+      return 'string';
+    }
+  }
+
+  /**
+   * Create a column vector over an Arrow vector.
+   *
+   * Values Arrow returns as objects, such as 64-bit integers and decimals,
+   * are converted on read to the plain values the renderers expect. The
+   * unscaled integers of decimals are divided by their scale.
+   */
+  export
+  function arrowColumn(vector: ColumnVector & { type: DataType }, type: string): ColumnVector {
+    let physical = DataType.isDictionary(vector.type) ? vector.type.dictionary : vector.type;
+
+    let convert: ((value: any) => any) | null = null;
+    if (DataType.isDecimal(physical)) {
+      let divisor = Math.pow(10, physical.scale);
+      convert = (value: any) => Number(value) / divisor;
+    } else if (type === 'integer' && DataType.isInt(physical) && physical.bitWidth === 64) {
+      convert = Number;
+    } else if (type === 'string' && physical.typeId !== Type.Utf8) {
+      convert = String;
+    }
+
+    if (convert === null) {
+      return vector;
+    }
+
+    let fn = convert;
+    return {
+      length: vector.length,
+      get: (index: number) => {
+        let value = vector.get(index);
+        return (value === null) ? null : fn(value);
+      }
+    };
   }
 }
@@ -0,0 +1,76 @@
+let bases = [1, 2, 5];
+
+/**
+ * This eliminates floating point errors otherwise accumulated
+ * by repeatedly adding the computed interval.
+ */
+function precision(interval: number){
+  var multiplier = Math.pow(10, Math.ceil(Math.log10(interval)) + 1);
+  return function (value: number){
+    return Math.round(value * multiplier) / multiplier;
+  };
+}
+
+/**
+ * Calculate a nice interval for the tick marks.
+ */
+function getNiceInterval(min: number, max: number, n: number) {
+
+  var rawInterval = (max - min) / n;
+  var rawExponent = Math.log10(rawInterval);
+
+  // One of these two integer exponents, in conjunction with one of the bases,
+  // will yield the nicest interval.
+  var exponents = [Math.floor(rawExponent), Math.ceil(rawExponent)];
+
+  var nicestInterval = Infinity;
+
+  bases.forEach( (base) => {
+    exponents.forEach( (exponent) => {
+
+      // Try each combination of base and interval.
+      var currentInterval = base * Math.pow(10, exponent);
+
+      // Pick the combination that yields the nice interval that
+      // most closely matches the raw interval.
+      var currentDeviation = Math.abs(rawInterval - currentInterval);
+      var nicestDeviation  = Math.abs(rawInterval - nicestInterval);
+
+      if ( currentDeviation < nicestDeviation ){
+        nicestInterval = currentInterval;
+      }
+    });
+  });
+
+  return nicestInterval;
+}
+
+function getFirstTickValue(min: number, interval: number){
+  return Math.floor(min / interval) * interval;
+}
+
+/**
+ * Generate nicely spaced tick values spanning a range.
+ */
+export
+function generateTicks(min: number, max: number, n: number, tight: boolean = true) {
+
+  let interval = getNiceInterval(min, max, n);
+  let value = getFirstTickValue(min, interval);
+
+  let ticks = [value];
+
+  while(value < max) {
+    value += interval;
+    ticks.push(value);
+  }
+
+  ticks = ticks.map(precision(interval));
+
+  if (tight) {
+    ticks[0] = min;
+    ticks[ticks.length - 1] = max;
+  }
+
+  return ticks;
+}
@@ -8,14 +8,18 @@ declare module 'typedfastbitset' {
     size(): number;
     trim(): void;
     add(val: number): void;
+    remove(val: number): void;
     has(val: number): boolean;
     array(): Array<number>;
     intersection(b: TypedFastBitSet): void;
     union(b: TypedFastBitSet): void;
+    difference(b: TypedFastBitSet): void;
     new_intersection(b: TypedFastBitSet): TypedFastBitSet;
     new_union(b: TypedFastBitSet): TypedFastBitSet;
+    intersection_size(b: TypedFastBitSet): number;
 
     public words: Uint32Array;
+    public count: number;
   }
 
   export = TypedFastBitSet;
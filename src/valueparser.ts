@@ -0,0 +1,136 @@
+/**
+ * The patterns of the texts of the values of each type.
+ *
+ * They are shared by the type inference of parsed files and the parsing
+ * of edited cells, so an edit accepts the texts a file is read from.
+ */
+export
+const valuePatterns = {
+  integer: /^[-+]?\d+$/,
+  float: /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/,
+  boolean: /^(true|false)$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  datetime: /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+};
+
+
+/**
+ * Parse the text of an edited cell into a value of the column type.
+ *
+ * @param text - The text typed into the cell.
+ *
+ * @param type - The column type.
+ *
+ * @returns The parsed value, or `null` for an empty text.
+ *
+ * @throws An error describing the problem if the text is not a valid
+ *   value of the column type.
+ *
+ * #### Notes
+ * Dates are written as `YYYY-MM-DD` and datetimes as ISO 8601 strings,
+ * which are stored as text like the values of a parsed CSV file.
+ * Booleans are written as `true`/`false`, `yes`/`no` or `1`/`0`.
+ */
+export
+function parseValue(text: string, type: string): any {
+  text = text.trim();
+
+  if (text === '') {
+    return null;
+  }
+
+  switch (type) {
+  case 'integer':
+    if (!valuePatterns.integer.test(text) || !Number.isSafeInteger(Number(text))) {
+      throw new Error(`"${text}" is not an integer`);
+    }
+    return Number(text);
+  case 'float':
+    if (!valuePatterns.float.test(text)) {
+      throw new Error(`"${text}" is not a number`);
+    }
+    return Number(text);
+  case 'boolean':
+    let flag = Private.booleanValues.get(text.toLowerCase());
+    if (flag === undefined) {
+      throw new Error(`"${text}" is not true or false`);
+    }
+    return flag;
+  case 'date':
+    if (!valuePatterns.date.test(text) || !Private.isValidDate(text)) {
+      throw new Error(`"${text}" is not a date (YYYY-MM-DD)`);
+    }
+    return text;
+  case 'datetime':
+    let value = text.replace(' ', 'T');
+    if (!valuePatterns.datetime.test(value) || !Private.isValidDate(value.slice(0, 10)) || isNaN(Date.parse(value))) {
+      throw new Error(`"${text}" is not a datetime (YYYY-MM-DDTHH:MM:SS)`);
+    }
+    return value;
+  default:
+    return text;
+  }
+}
+
+
+/**
+ * Format a value of a column type as the text shown in its cell.
+ *
+ * @param value - The value to format.
+ *
+ * @param type - The column type.
+ *
+ * @returns The text of the value, or an empty text for a missing value.
+ *
+ * #### Notes
+ * Dates are formatted as `YYYY-MM-DD` in UTC, as the `YYYY-MM-DD` texts
+ * they are parsed from are UTC midnights. Datetimes are formatted as
+ * `YYYY-MM-DD HH:MM:SS` in local time. The text of a date or datetime is
+ * a valid input of `parseValue`.
+ */
+export
+function formatValue(value: any, type: string): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (type !== 'date' && type !== 'datetime') {
+    return String(value);
+  }
+
+  let date = (value instanceof Date) ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    return String(value);
+  }
+  if (type === 'date') {
+    return date.toISOString().slice(0, 10);
+  }
+
+  let pad = (n: number) => (n < 10) ? `0${n}` : String(n);
+  let day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+
+/**
+ * The namespace for the module implementation details.
+ */
+namespace Private {
+  /**
+   * The boolean values of the accepted texts.
+   */
+  export
+  const booleanValues = new Map<string, boolean>([
+    ['true', true], ['yes', true], ['1', true],
+    ['false', false], ['no', false], ['0', false]
+  ]);
+
+  /**
+   * Test whether a `YYYY-MM-DD` text is a day of the calendar.
+   */
+  export
+  function isValidDate(text: string): boolean {
+    let time = Date.parse(`${text}T00:00:00Z`);
+    return !isNaN(time) && new Date(time).toISOString().slice(0, 10) === text;
+  }
+}
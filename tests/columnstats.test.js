@@ -0,0 +1,137 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+
+const TypedFastBitSet = require('typedfastbitset');
+
+const { computeStats } = require('../lib/columnstats');
+
+
+/**
+ * Create a stats request for the values of a column.
+ */
+function request(type, values, options = {}) {
+  let nulls = new TypedFastBitSet();
+  values.forEach((value, row) => {
+    if (value === null) {
+      nulls.add(row);
+    }
+  });
+
+  let result = {
+    id: 1, type, values: null, codes: null, dictionary: null,
+    nulls: nulls.words, maxCategories: 30, uniqueRatio: 0.9,
+    ...options
+  };
+  if (type === 'integer' || type === 'float') {
+    result.values = Float64Array.from(values, value => (value === null) ? NaN : value);
+  } else {
+    let dictionary = options.dictionary || Array.from(new Set(values.filter(value => value !== null)));
+    result.dictionary = dictionary;
+    result.codes = Int32Array.from(values, value => (value === null) ? -1 : dictionary.indexOf(value));
+  }
+  return result;
+}
+
+/**
+ * Get the number of rows in each bin of a stats result.
+ */
+function binCounts(result) {
+  return result.bins.map(words => {
+    let bitset = new TypedFastBitSet();
+    bitset.words = words;
+    bitset.count = words.length;
+    return bitset.size();
+  });
+}
+
+
+test('handles an empty column', () => {
+  let result = computeStats(request('float', []));
+  assert.strictEqual(result.min, undefined);
+  assert.deepStrictEqual(result.bins, []);
+});
+
+test('handles a column of missing values', () => {
+  let result = computeStats(request('integer', [null, null]));
+  assert.strictEqual(result.min, undefined);
+  assert.deepStrictEqual(result.bins, []);
+});
+
+test('gives a constant column a single bin', () => {
+  let result = computeStats(request('float', [3, 3, null, 3]));
+  assert.strictEqual(result.min, 3);
+  assert.strictEqual(result.max, 3);
+  assert.deepStrictEqual(binCounts(result), [3]);
+});
+
+test('puts the maximum in the last bin', () => {
+  let result = computeStats(request('integer', [0, 1, 2, 3]));
+  assert.deepStrictEqual(result.edges, [0, 1, 2, 3, 4]);
+  assert.deepStrictEqual(binCounts(result), [1, 1, 1, 1]);
+});
+
+test('spans a float column with nice edges', () => {
+  let result = computeStats(request('float', [0.3, 4.2, 9.7, null]));
+  assert.strictEqual(result.min, 0.3);
+  assert.strictEqual(result.max, 9.7);
+  assert.ok(result.edges[0] <= 0.3 && result.edges[result.edges.length - 1] >= 9.7);
+  assert.strictEqual(binCounts(result).reduce((a, b) => a + b, 0), 3);
+});
+
+test('bins dates by their UTC calendar', () => {
+  // Dates are UTC midnights, which fall on the previous day west of UTC.
+  let timezone = process.env.TZ;
+  process.env.TZ = 'America/New_York';
+  try {
+    let days = [1, 20, 45, 80].map(day => new Date(Date.UTC(2020, 0, day)));
+    let result = computeStats(request('date', days));
+    for (let edge of result.edges) {
+      assert.strictEqual(new Date(edge).getUTCHours(), 0);
+    }
+    assert.ok(result.edges[0] <= days[0].getTime());
+    assert.strictEqual(binCounts(result).reduce((a, b) => a + b, 0), 4);
+  } finally {
+    if (timezone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = timezone;
+    }
+  }
+});
+
+test('bins only the string values in use', () => {
+  let result = computeStats(request('string', ['a', 'c', 'c', null], { dictionary: ['a', 'b', 'c'] }));
+  assert.deepStrictEqual(result.categories, [2, 0]);
+  assert.deepStrictEqual(binCounts(result), [2, 1]);
+  assert.strictEqual(result.otherCount, 0);
+});
+
+test('lumps the less frequent strings into a last bin', () => {
+  let values = ['a', 'a', 'a', 'b', 'b', 'c', 'd'];
+  let result = computeStats(request('string', values, { maxCategories: 2, uniqueRatio: 1 }));
+  assert.deepStrictEqual(binCounts(result), [3, 2, 2]);
+  assert.strictEqual(result.otherCount, 2);
+});
+
+test('bins mostly unique strings by length', () => {
+  let values = ['a', 'bb', 'ccc', 'dddd'];
+  let result = computeStats(request('string', values, { maxCategories: 2 }));
+  assert.strictEqual(result.byLength, true);
+  assert.strictEqual(result.min, 1);
+  assert.strictEqual(result.max, 4);
+});
+
+test('spans only the values in use', () => {
+  let days = [1, 2].map(day => new Date(Date.UTC(2020, 0, day)));
+  let unused = new Date(Date.UTC(1990, 0, 1));
+  let result = computeStats(request('date', days, { dictionary: [unused, ...days] }));
+  assert.strictEqual(result.min, days[0].getTime());
+  assert.strictEqual(result.max, days[1].getTime());
+
+  let values = ['a', 'bb', 'ccc'];
+  result = computeStats(request('string', values, { maxCategories: 2, dictionary: [...values, 'dddddddd'] }));
+  assert.strictEqual(result.byLength, true);
+  assert.strictEqual(result.max, 3);
+});
@@ -0,0 +1,25 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+
+const { encodeColumn } = require('../lib/columnstore');
+
+
+/**
+ * Create a column of the storage type of a column type.
+ */
+function column(values, type) {
+  return encodeColumn({ length: values.length, get: index => values[index] }, type);
+}
+
+
+test('encodes the equal dates once', () => {
+  let values = column([new Date(Date.UTC(2020, 0, 1)), null, new Date(Date.UTC(2020, 0, 1))], 'date');
+  assert.strictEqual(values.dictionary.length, 1);
+  assert.deepStrictEqual(Array.from(values.codes), [0, -1, 0]);
+
+  values.append([new Date(Date.UTC(2020, 0, 1)), new Date(Date.UTC(2020, 0, 2))]);
+  assert.strictEqual(values.dictionary.length, 2);
+  assert.deepStrictEqual(Array.from(values.codes), [0, -1, 0, 0, 1]);
+});
@@ -0,0 +1,51 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+
+const { parseCSV } = require('../lib/csvparser');
+
+
+test('sniffs the delimiter', () => {
+  assert.deepStrictEqual(parseCSV('a;b\n1;2\n').keys, ['a', 'b']);
+  assert.deepStrictEqual(parseCSV('a\tb\n1\t2\n').keys, ['a', 'b']);
+  assert.deepStrictEqual(parseCSV('a|b\n1|2\n').keys, ['a', 'b']);
+});
+
+test('keeps a delimiter given in the options', () => {
+  let result = parseCSV('a;b,c\n1;2,3\n', { delimiter: ',' });
+  assert.deepStrictEqual(result.keys, ['a;b', 'c']);
+});
+
+test('parses quoted fields', () => {
+  let result = parseCSV('name,note\nx,"a, ""b""\nc"\n');
+  assert.deepStrictEqual(result.data, [['x', 'a, "b"\nc']]);
+});
+
+test('detects the header row', () => {
+  assert.deepStrictEqual(parseCSV('id,price\n1,2.5\n').keys, ['id', 'price']);
+  let result = parseCSV('1,2.5\n2,3.5\n');
+  assert.deepStrictEqual(result.keys, ['Column 1', 'Column 2']);
+  assert.strictEqual(result.data.length, 2);
+});
+
+test('infers the column types', () => {
+  let text = [
+    'i,f,b,d,t,s',
+    '1,1.5,true,2020-01-02,2020-01-02 03:04:05,x',
+    '2,2,false,2020-02-03,2020-02-03 04:05:06,y'
+  ].join('\n');
+  let result = parseCSV(text);
+  assert.deepStrictEqual(result.types, ['integer', 'float', 'boolean', 'date', 'datetime', 'string']);
+  assert.deepStrictEqual(result.data[0], [1, 1.5, true, '2020-01-02', '2020-01-02T03:04:05', 'x']);
+});
+
+test('reads empty fields as missing values', () => {
+  let result = parseCSV('a,b\n1,\n,x\n');
+  assert.deepStrictEqual(result.types, ['integer', 'string']);
+  assert.deepStrictEqual(result.data, [[1, null], [null, 'x']]);
+});
+
+test('strips the byte order mark', () => {
+  assert.deepStrictEqual(parseCSV('\uFEFFa,b\nx,y\n').keys, ['a', 'b']);
+});
@@ -0,0 +1,64 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+
+const { compileExpression } = require('../lib/expression');
+
+
+const keys = ['price', 'qty', 'country', 'order date'];
+const types = ['float', 'integer', 'string', 'date'];
+
+const rows = [
+  [2.5, 4, 'FR', new Date(Date.UTC(2020, 4, 17))],
+  [null, 2, 'DE', new Date(Date.UTC(2021, 0, 1))],
+  [1, -999, null, null]
+];
+
+const columns = keys.map((key, column) => ({
+  length: rows.length,
+  get: index => rows[index][column]
+}));
+
+
+/**
+ * Evaluate an expression for all the rows.
+ */
+function evaluate(text, missing) {
+  let expression = compileExpression(text, keys, types, missing);
+  return rows.map((values, row) => expression.evaluate(columns, row));
+}
+
+
+test('evaluates arithmetic with precedence', () => {
+  assert.deepStrictEqual(evaluate('price * qty + 1'), [11, null, -998]);
+  assert.deepStrictEqual(evaluate('(qty + 1) % 3'), [2, 0, -2]);
+});
+
+test('infers the result type and the columns read', () => {
+  let expression = compileExpression('qty * 2 > price', keys, types);
+  assert.strictEqual(expression.type, 'boolean');
+  assert.deepStrictEqual(expression.columns, [1, 0]);
+  assert.strictEqual(compileExpression('qty * 2', keys, types).type, 'integer');
+});
+
+test('calls functions and reads quoted column names', () => {
+  assert.deepStrictEqual(evaluate('year(`order date`)'), [2020, 2021, null]);
+  assert.deepStrictEqual(evaluate('lower(country)'), ['fr', 'de', null]);
+});
+
+test('propagates missing values except through coalesce and isnull', () => {
+  assert.deepStrictEqual(evaluate('coalesce(price, 0)'), [2.5, 0, 1]);
+  assert.deepStrictEqual(evaluate('isnull(country)'), [false, false, true]);
+});
+
+test('counts the values of the missing-value rules as missing', () => {
+  let missing = (column, text) => column === 1 && text === '-999';
+  assert.deepStrictEqual(evaluate('qty + 1', missing), [5, 3, null]);
+});
+
+test('rejects invalid expressions', () => {
+  assert.throws(() => compileExpression('price +', keys, types));
+  assert.throws(() => compileExpression('unknown + 1', keys, types));
+  assert.throws(() => compileExpression('country * 2', keys, types));
+});
@@ -0,0 +1,74 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+
+const { encodeColumn } = require('../lib/columnstore');
+const { parseFilter, selectFilter } = require('../lib/filterparser');
+
+
+/**
+ * Get the rows of a column matched by a filter text.
+ */
+function select(text, values, type, missing) {
+  return selectFilter(parseFilter(text, type), values, type, missing).array();
+}
+
+/**
+ * Create a column of the storage type of a column type.
+ */
+function column(values, type) {
+  return encodeColumn({ length: values.length, get: index => values[index] }, type);
+}
+
+const numbers = column([1, 5, null, 10, -999], 'integer');
+const strings = column(['Apple', 'banana', null, 'apricot', 'NA'], 'string');
+
+
+test('compares numbers', () => {
+  assert.deepStrictEqual(select('>=5', numbers, 'integer'), [1, 3]);
+  assert.deepStrictEqual(select('<5', numbers, 'integer'), [0, 4]);
+  assert.deepStrictEqual(select('10', numbers, 'integer'), [3]);
+});
+
+test('matches inclusive ranges with open bounds', () => {
+  assert.deepStrictEqual(select('1..5', numbers, 'integer'), [0, 1]);
+  assert.deepStrictEqual(select('5..', numbers, 'integer'), [1, 3]);
+  assert.deepStrictEqual(select('..1', numbers, 'integer'), [0, 4]);
+});
+
+test('matches text by prefix, substring and regex', () => {
+  assert.deepStrictEqual(select('ap', strings, 'string'), [0, 3]);
+  assert.deepStrictEqual(select('~AN', strings, 'string'), [1]);
+  assert.deepStrictEqual(select('/^a/', strings, 'string'), [3]);
+  assert.deepStrictEqual(select('/^a/i', strings, 'string'), [0, 3]);
+});
+
+test('ignores the global and sticky flags of regexes', () => {
+  assert.deepStrictEqual(select('/a/gy', strings, 'string'), [1, 3]);
+});
+
+test('negates filters', () => {
+  assert.deepStrictEqual(select('!~an', strings, 'string'), [0, 2, 3, 4]);
+});
+
+test('matches the missing values', () => {
+  assert.deepStrictEqual(select('is:null', numbers, 'integer'), [2]);
+  assert.deepStrictEqual(select('is:missing', strings, 'string'), [2]);
+  assert.deepStrictEqual(select('is:null', numbers, 'integer', text => text === '-999'), [2, 4]);
+  assert.deepStrictEqual(select('is:missing', strings, 'string', text => text === 'NA'), [2, 4]);
+});
+
+test('matches the missing values with no other test', () => {
+  let missing = (text) => text === '-999' || text === 'NA';
+  assert.deepStrictEqual(select('<5', numbers, 'integer', missing), [0]);
+  assert.deepStrictEqual(select('..1', numbers, 'integer', missing), [0]);
+  assert.deepStrictEqual(select('/a$/i', strings, 'string', missing), [1]);
+});
+
+test('rejects invalid filters', () => {
+  assert.throws(() => parseFilter('', 'string'), /Empty filter/);
+  assert.throws(() => parseFilter('is:foo', 'string'), /Unknown test/);
+  assert.throws(() => parseFilter('/(/', 'string'), /Invalid regular expression/);
+  assert.throws(() => parseFilter('>abc', 'integer'), /is not a number/);
+});
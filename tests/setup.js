@@ -0,0 +1,25 @@
+/*-----------------------------------------------------------------------------
+| The setup of the tests, which run against the compiled modules in `lib`.
+|
+| Usage: npm test
+|
+| The bitset module is resolved to its source file, as the webpack alias
+| does for the bundle. The datagrid probes the browser when it is loaded,
+| so the few globals it reads are defined for the data models.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+const Module = require('module');
+const path = require('path');
+
+const bitset = path.resolve(__dirname, '../src/typedfastbitset.js');
+const resolveFilename = Module._resolveFilename;
+
+Module._resolveFilename = function (request, ...args) {
+  return resolveFilename.call(this, (request === 'typedfastbitset') ? bitset : request, ...args);
+};
+
+global.window = global;
+global.navigator = { platform: '', userAgent: '' };
+global.document = { createElement: () => ({ style: {}, getContext: () => null }) };
+global.Element = class Element { };
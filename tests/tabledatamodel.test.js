@@ -0,0 +1,282 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+
+const { TableDataModel } = require('../lib/tabledatamodel');
+const { formatValue } = require('../lib/valueparser');
+
+
+/**
+ * Create a model of a few people.
+ */
+function createModel() {
+  let model = new TableDataModel();
+  model.setRawData([
+    ['ann', 31, 'fr'],
+    ['bob', 25, 'de'],
+    ['cid', null, 'fr'],
+    ['dan', 25, 'it']
+  ], ['name', 'age', 'country'], ['string', 'integer', 'string']);
+  return model;
+}
+
+/**
+ * Get the values of a column in the body rows.
+ */
+function columnData(model, column) {
+  let values = [];
+  for (let row = 0; row < model.rowCount('body'); row++) {
+    values.push(model.data('body', row, column));
+  }
+  return values;
+}
+
+
+test('sorts by a column, then in reverse, then not at all', () => {
+  let model = createModel();
+  model.cycleSort(1, false);
+  assert.deepStrictEqual(columnData(model, 0), ['bob', 'dan', 'ann', 'cid']);
+  model.cycleSort(1, false);
+  assert.deepStrictEqual(columnData(model, 0), ['ann', 'bob', 'dan', 'cid']);
+  model.cycleSort(1, false);
+  assert.deepStrictEqual(model.sortKeys, []);
+  assert.deepStrictEqual(columnData(model, 0), ['ann', 'bob', 'cid', 'dan']);
+});
+
+test('sorts by several columns', () => {
+  let model = createModel();
+  model.cycleSort(1, false);
+  model.cycleSort(0, true);
+  model.cycleSort(0, true);
+  assert.deepStrictEqual(model.sortKeys, [{ column: 1, order: 'asc' }, { column: 0, order: 'desc' }]);
+  assert.deepStrictEqual(columnData(model, 0), ['dan', 'bob', 'ann', 'cid']);
+});
+
+/**
+ * Get the rows of a histogram bin by its label.
+ */
+function binRows(model, column, label) {
+  return model.columnStats(column).bins.find(bin => bin.label === label).bitset;
+}
+
+
+test('combines the bins of a column with OR', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'de'), true);
+  model.filterBin(2, binRows(model, 2, 'it'), false);
+  assert.deepStrictEqual(columnData(model, 0), ['bob', 'dan']);
+});
+
+test('combines the filters of the columns with AND', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  model.filterBin(1, binRows(model, 1, '31'), true);
+  assert.deepStrictEqual(columnData(model, 0), ['ann']);
+});
+
+test('excludes the rows of a bin', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'fr'), true, true);
+  assert.deepStrictEqual(columnData(model, 0), ['bob', 'dan']);
+  model.filterBin(2, binRows(model, 2, 'fr'), false, true);
+  assert.deepStrictEqual(columnData(model, 0), ['ann', 'bob', 'cid', 'dan']);
+});
+
+test('clears the filters of all the columns', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  model.filterBin(1, binRows(model, 1, '31'), true);
+  model.filterBin(0, null, true);
+  assert.strictEqual(model.rowCount('body'), 4);
+  assert.strictEqual(model.filteredRows, null);
+});
+
+test('links the bins to the filters of the other columns', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  let ages = model.columnStats(1);
+  assert.strictEqual(ages.isLinked, true);
+  assert.strictEqual(ages.bins.find(bin => bin.label === '25').linked.size(), 0);
+  assert.strictEqual(ages.nullBin.linked.size(), 1);
+  assert.strictEqual(model.columnStats(2).bins.find(bin => bin.label === 'de').linked.size(), 1);
+});
+
+test('appends rows and updates the statistics in place', () => {
+  let model = createModel();
+  let stats = model.columnStats(2);
+  model.appendRows([['eve', 40, 'fr'], ['fay', null, 'es']]);
+  assert.strictEqual(model.rowCount('body'), 6);
+  assert.deepStrictEqual(columnData(model, 0), ['ann', 'bob', 'cid', 'dan', 'eve', 'fay']);
+  assert.strictEqual(model.columnStats(2), stats);
+  assert.strictEqual(binRows(model, 2, 'fr').size(), 3);
+  assert.strictEqual(binRows(model, 2, 'es').size(), 1);
+  assert.strictEqual(model.columnStats(1).nullBin.count, 2);
+});
+
+test('keeps the filters and the sort of appended rows', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  model.cycleSort(1, false);
+  model.appendRows([['eve', 20, 'fr'], ['fay', 10, 'de']]);
+  assert.deepStrictEqual(columnData(model, 0), ['eve', 'ann', 'cid']);
+});
+
+test('edits cells with undo and redo', () => {
+  let model = createModel();
+  assert.strictEqual(model.setData('body', 1, 1, '26'), true);
+  assert.strictEqual(model.data('body', 1, 1), 26);
+  assert.strictEqual(model.metadata('body', 1, 1).edited, true);
+  model.undo();
+  assert.strictEqual(model.data('body', 1, 1), 25);
+  assert.strictEqual(model.metadata('body', 1, 1).edited, undefined);
+  model.redo();
+  assert.strictEqual(model.data('body', 1, 1), 26);
+});
+
+test('rejects the edits which do not parse', () => {
+  let model = createModel();
+  assert.strictEqual(model.setData('body', 1, 1, 'abc'), false);
+  assert.strictEqual(model.editError(1, 'abc'), '"abc" is not an integer');
+  assert.strictEqual(model.data('body', 1, 1), 25);
+});
+
+test('leaves the unchanged cells unedited', () => {
+  let model = new TableDataModel();
+  model.setRawData([
+    [new Date(Date.UTC(2020, 0, 2)), '2020-01-02T03:04:05.678Z']
+  ], ['day', 'time'], ['date', 'datetime']);
+  let day = model.data('body', 0, 0);
+  let time = model.data('body', 0, 1);
+
+  assert.strictEqual(model.setData('body', 0, 0, ' 2020-01-02 '), true);
+  assert.strictEqual(model.setData('body', 0, 1, formatValue(time, 'datetime')), true);
+  assert.strictEqual(model.metadata('body', 0, 0).edited, undefined);
+  assert.strictEqual(model.metadata('body', 0, 1).edited, undefined);
+  assert.strictEqual(model.data('body', 0, 0), day);
+  assert.strictEqual(model.data('body', 0, 1), time);
+
+  model.setData('body', 0, 0, '2020-01-03');
+  model.undo();
+  assert.strictEqual(model.data('body', 0, 0), day);
+});
+
+test('keeps some body rows, which stay kept through sorting', () => {
+  let model = createModel();
+  model.cycleSort(0, false);
+  model.cycleSort(0, false);
+  model.keepRows([0, 2]);
+  assert.deepStrictEqual(columnData(model, 0), ['dan', 'bob']);
+  model.cycleSort(0, false);
+  assert.deepStrictEqual(columnData(model, 0), ['bob', 'dan']);
+});
+
+test('excludes some body rows along with the column filters', () => {
+  let model = createModel();
+  model.excludeRows([0]);
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  assert.deepStrictEqual(columnData(model, 0), ['cid']);
+  model.filterBin(0, null, true);
+  assert.deepStrictEqual(columnData(model, 0), ['ann', 'bob', 'cid', 'dan']);
+});
+
+test('moves, hides and pins columns', () => {
+  let model = createModel();
+  model.moveColumn(2, 0);
+  assert.deepStrictEqual(model.columnOrder, [2, 0, 1]);
+  assert.strictEqual(model.data('body', 0, 0), 'fr');
+
+  model.setColumnVisible(0, false);
+  assert.deepStrictEqual(model.columnOrder, [2, 1]);
+  assert.strictEqual(model.columnCount('body'), 2);
+
+  model.setColumnPinned(1, true);
+  assert.deepStrictEqual(model.columnOrder, [1, 2]);
+  assert.strictEqual(model.pinnedCount, 1);
+  assert.strictEqual(model.dataColumn('row-header', 1), 1);
+  assert.strictEqual(model.dataColumn('body', 0), 2);
+
+  // A column moves within the pinned or unpinned columns only.
+  model.setColumnVisible(0, true);
+  model.moveColumn(0, 0);
+  assert.deepStrictEqual(model.columnOrder, [1, 0, 2]);
+});
+
+test('keeps the filters and sort of a hidden column', () => {
+  let model = createModel();
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  model.cycleSort(0, false);
+  model.cycleSort(0, false);
+  model.setColumnVisible(2, false);
+  model.setColumnVisible(0, false);
+  assert.deepStrictEqual(columnData(model, 0), [null, 31]);
+});
+
+test('identifies the rows by their index in the data', () => {
+  let model = createModel();
+  model.cycleSort(0, false);
+  model.cycleSort(0, false);
+  assert.strictEqual(model.rowId(0), 4);
+  assert.strictEqual(model.data('row-header', 0, 0), 4);
+  assert.strictEqual(model.findRow(' 2 '), 1);
+  assert.strictEqual(model.findRow('5'), -1);
+  assert.strictEqual(model.viewRow(1), 2);
+});
+
+test('identifies the rows by a key column', () => {
+  let model = createModel();
+  model.setKeyColumn(0);
+  model.filterBin(2, binRows(model, 2, 'fr'), true);
+  assert.strictEqual(model.rowId(1), 'cid');
+  assert.strictEqual(model.findRow('bob'), 1);
+  assert.strictEqual(model.viewRow(1), -1);
+  assert.strictEqual(model.viewRow(2), 1);
+});
+
+test('finds the rows by the text of a date key', () => {
+  let model = new TableDataModel();
+  model.setRawData([
+    [new Date(Date.UTC(2020, 0, 1)), 1],
+    [new Date(Date.UTC(2020, 0, 2)), 2]
+  ], ['day', 'value'], ['date', 'integer']);
+  model.setKeyColumn(0);
+  assert.strictEqual(model.data('row-header', 1, 0), '2020-01-02');
+  assert.strictEqual(model.findRow('2020-01-02'), 1);
+});
+
+test('leaves the values counted as missing out of filters, sorting and search', () => {
+  let model = createModel();
+  model.appendRows([['eve', -999, 'es']]);
+  model.setColumnMissingValues(1, ['-999']);
+
+  model.setData('column-header', 1, 1, '<30');
+  assert.deepStrictEqual(columnData(model, 0), ['bob', 'dan']);
+  model.setData('column-header', 1, 1, '');
+
+  model.cycleSort(1, false);
+  assert.deepStrictEqual(columnData(model, 0), ['bob', 'dan', 'ann', 'cid', 'eve']);
+
+  model.search('-999');
+  assert.strictEqual(model.rowCount('body'), 0);
+});
+
+test('labels the datetime bins as their cells', () => {
+  let model = new TableDataModel();
+  let times = [0, 3, 7, 11].map(hour => new Date(2020, 0, 2, hour, 30));
+  model.setRawData(times.map(time => [time]), ['time'], ['datetime']);
+  let bins = model.columnStats(0).bins;
+  assert.ok(bins.length > 1);
+  for (let bin of bins) {
+    assert.strictEqual(bin.label, formatValue(new Date(bin.min), 'datetime'));
+  }
+});
+
+test('searches the values by the text shown in their cells', () => {
+  let model = new TableDataModel();
+  model.setRawData([[1234, 0.5], [12, 2]], ['count', 'ratio'], ['integer', 'float']);
+  model.search('1,234');
+  assert.strictEqual(model.rowCount('body'), 1);
+  assert.strictEqual(model.metadata('body', 0, 0).match, true);
+  model.search('2.00');
+  assert.deepStrictEqual(columnData(model, 0), [12]);
+});
@@ -4,10 +4,13 @@ const TerserPlugin = require('terser-webpack-plugin');
 const path = require('path');
 
 module.exports = {
-  entry: './lib/index.js',
+  entry: {
+    databrowser: './lib/index.js',
+    'databrowser.worker': './lib/statsworker.js'
+  },
   output: {
     path: __dirname + '/lib/',
-    filename: 'databrowser.js',
+    filename: '[name].js',
     publicPath: './lib/'
   },
   module: {